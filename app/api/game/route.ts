@@ -1,5 +1,5 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { getGameState, handleInput, joinRoom, leaveRoom } from "@/lib/game-store"
+import { getGameState, handleInput, joinRoom, leaveRoom, switchPlayer } from "@/lib/game-store"
 
 export async function GET(request: NextRequest) {
   const roomId = request.nextUrl.searchParams.get("roomId")
@@ -33,6 +33,9 @@ export async function POST(request: NextRequest) {
 
     if (type === "join") {
       const player = await joinRoom(roomId, playerId, playerName || "Player", team || "home")
+      if (!player) {
+        return NextResponse.json({ error: "That side is full. Pick the other team or another room." }, { status: 409 })
+      }
       return NextResponse.json({ success: true, player })
     }
 
@@ -41,6 +44,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: true })
     }
 
+    if (type === "switch") {
+      await switchPlayer(roomId, playerId)
+      return NextResponse.json({ success: true })
+    }
+
     if (type === "input" && input) {
       await handleInput(roomId, playerId, input)
       const state = await getGameState(roomId)
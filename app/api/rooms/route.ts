@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server"
 import { getRoomList, createRoom } from "@/lib/game-store"
+import { parseRoomRules } from "@/lib/game-engine"
+import { parseSquads } from "@/lib/squads"
 
 export async function GET() {
   try {
@@ -21,7 +23,7 @@ export async function POST(request: Request) {
     }
 
     const roomId = `room_${Date.now()}_${Math.random().toString(36).slice(2)}`
-    await createRoom(roomId, name.slice(0, 32))
+    await createRoom(roomId, name.slice(0, 32), parseRoomRules(body.rules), parseSquads(body.squads))
 
     return NextResponse.json({ roomId, success: true })
   } catch (error) {
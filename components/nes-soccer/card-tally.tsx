@@ -0,0 +1,28 @@
+"use client"
+
+import type { Player, Team } from "@/lib/game-engine"
+
+interface CardTallyProps {
+  players: Pick<Player, "team" | "yellowCards" | "sentOff">[]
+  team: Team
+}
+
+// Small card icons for the HUD: one yellow per booked player still on, one red per send-off
+export function CardTally({ players, team }: CardTallyProps) {
+  const teamPlayers = players.filter((p) => p.team === team)
+  const yellows = teamPlayers.filter((p) => !p.sentOff && p.yellowCards > 0).length
+  const reds = teamPlayers.filter((p) => p.sentOff).length
+
+  if (yellows === 0 && reds === 0) return null
+
+  return (
+    <span className="inline-flex gap-1 ml-2 align-middle">
+      {Array.from({ length: yellows }, (_, i) => (
+        <span key={`yellow-${i}`} className="inline-block w-2 h-3 bg-[#ffdd00]" />
+      ))}
+      {Array.from({ length: reds }, (_, i) => (
+        <span key={`red-${i}`} className="inline-block w-2 h-3 bg-[#ff2222]" />
+      ))}
+    </span>
+  )
+}
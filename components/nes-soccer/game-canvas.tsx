@@ -2,73 +2,68 @@
 
 import { useEffect, useRef, useState, useCallback } from "react"
 import { sounds } from "@/lib/sounds"
-import { drawPlayer, drawBall, drawField, type PlayerRenderState } from "@/lib/player-renderer"
+import { CardTally } from "./card-tally"
+import {
+  drawPlayer,
+  drawBall,
+  drawField,
+  drawGround,
+  drawPhaseOverlay,
+  drawWeather,
+  divePose,
+  getPeriodLabel,
+  type PlayerRenderState,
+} from "@/lib/player-renderer"
+import {
+  BALL_SIZE,
+  LOB_HOLD_MS,
+  aftertouchCurve,
+  chargeLevel,
+  createGameRoom,
+  getPitch,
+  type GameRoom,
+  type Player,
+  type Team,
+} from "@/lib/game-engine"
+import { findSwitchTarget } from "@/lib/player-control"
 
 interface GameCanvasProps {
   roomId: string
-  playerTeam: "home" | "away"
+  playerTeam: Team
   playerName: string
   onExit: () => void
+  onJoinRejected: (message: string) => void // the server turned the join down, e.g. a full side
 }
 
-interface Player {
-  id: string
-  name: string
-  x: number
-  y: number
-  team: "home" | "away"
-  isGoalkeeper: boolean
-  hasBall: boolean
-  isSliding: boolean
-  slideTimer: number
-  velocityX: number
-  velocityY: number
-  facingX: number
-  facingY: number
-  animFrame?: number
-}
+// Shoot and pass fire when the button is let go, with power from how long it was held
+const HELD_KEYS = [" ", "q"]
 
-interface Ball {
-  x: number
-  y: number
-  velocityX: number
-  velocityY: number
-  ownerId: string | null
-  isGrabbed: boolean
+// Snapshot shape returned by /api/game; the server leaves out fields clients never draw
+interface NetPlayer extends Omit<Player, "isHuman" | "grabTimer" | "animFrame"> {
+  animFrame?: number
+  controllerId?: string | null // client playing this player, null for a bot
 }
 
-interface GameStateNet {
-  players: Player[]
-  ball: Ball
-  score: { home: number; away: number }
-  gameTime: number
-  isPlaying: boolean
-  lastGoalTeam: "home" | "away" | null
-  goalCelebration: number
+interface GameStateNet extends GameRoom {
+  players: NetPlayer[]
 }
 
-const FIELD_WIDTH = 800
-const FIELD_HEIGHT = 500
-const BALL_SIZE = 12
-
-const DEFAULT_STATE: GameStateNet = {
-  players: [],
-  ball: { x: FIELD_WIDTH / 2, y: FIELD_HEIGHT / 2, velocityX: 0, velocityY: 0, ownerId: null, isGrabbed: false },
-  score: { home: 0, away: 0 },
-  gameTime: 180,
-  isPlaying: true,
-  lastGoalTeam: null,
-  goalCelebration: 0,
-}
+const DEFAULT_STATE: GameStateNet = { ...createGameRoom(0), players: [] }
 
-export function GameCanvas({ roomId, playerTeam, playerName, onExit }: GameCanvasProps) {
+export function GameCanvas({ roomId, playerTeam, playerName, onExit, onJoinRejected }: GameCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const gameLoopRef = useRef<number | null>(null)
   const keysRef = useRef<Set<string>>(new Set())
+  const heldSinceRef = useRef<Map<string, number>>(new Map())
+  const releasedRef = useRef<Map<string, number>>(new Map())
   const playerIdRef = useRef<string>(`player_${Date.now()}_${Math.random().toString(36).slice(2)}`)
   const animFrameRef = useRef<number>(0)
   const lastScoreRef = useRef({ home: 0, away: 0 })
   const lastGoalCelebrationRef = useRef(0)
+  const lastPeriodRef = useRef("")
+  const lastShootoutKicksRef = useRef(0)
+  const lastKickoffWaitRef = useRef(false)
+  const lastSetPieceRef = useRef(false)
 
   const [connected, setConnected] = useState(false)
   const [gameState, setGameState] = useState<GameStateNet>(DEFAULT_STATE)
@@ -111,6 +106,12 @@ export function GameCanvas({ roomId, playerTeam, playerName, onExit }: GameCanva
           }),
         })
 
+        // A full side will not free up by retrying
+        if (response.status === 409) {
+          const data = await response.json()
+          if (mounted) onJoinRejected(data.error)
+          return
+        }
         if (!response.ok) {
           throw new Error(`HTTP ${response.status}`)
         }
@@ -155,18 +156,43 @@ export function GameCanvas({ roomId, playerTeam, playerName, onExit }: GameCanva
   // Handle keyboard input
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      keysRef.current.add(e.key.toLowerCase())
+      const key = e.key.toLowerCase()
+      if (HELD_KEYS.includes(key)) {
+        if (!heldSinceRef.current.has(key)) heldSinceRef.current.set(key, performance.now())
+      } else {
+        keysRef.current.add(key)
+      }
       if (
-        ["w", "a", "s", "d", " ", "shift", "e", "q", "arrowup", "arrowdown", "arrowleft", "arrowright"].includes(
-          e.key.toLowerCase(),
-        )
+        [
+          "w",
+          "a",
+          "s",
+          "d",
+          " ",
+          "shift",
+          "e",
+          "q",
+          "r",
+          "f",
+          "c",
+          "arrowup",
+          "arrowdown",
+          "arrowleft",
+          "arrowright",
+        ].includes(e.key.toLowerCase())
       ) {
         e.preventDefault()
       }
     }
 
     const handleKeyUp = (e: KeyboardEvent) => {
-      keysRef.current.delete(e.key.toLowerCase())
+      const key = e.key.toLowerCase()
+      const heldSince = heldSinceRef.current.get(key)
+      if (heldSince !== undefined) {
+        heldSinceRef.current.delete(key)
+        releasedRef.current.set(key, performance.now() - heldSince)
+      }
+      keysRef.current.delete(key)
     }
 
     window.addEventListener("keydown", handleKeyDown)
@@ -182,6 +208,7 @@ export function GameCanvas({ roomId, playerTeam, playerName, onExit }: GameCanva
     if (!connected) return
 
     const keys = keysRef.current
+    const released = releasedRef.current
     let dx = 0
     let dy = 0
 
@@ -190,20 +217,36 @@ export function GameCanvas({ roomId, playerTeam, playerName, onExit }: GameCanva
     if (keys.has("a") || keys.has("arrowleft")) dx -= 1
     if (keys.has("d") || keys.has("arrowright")) dx += 1
 
+    const heldMs = Math.max(released.get(" ") ?? 0, released.get("q") ?? 0)
     const input = {
       dx,
       dy,
-      shoot: keys.has(" "),
+      shoot: released.has(" "),
       slide: keys.has("shift"),
       grab: keys.has("e"),
-      pass: keys.has("q"),
+      through: keys.has("r"),
+      sprint: keys.has("f"),
+      pass: released.has("q"),
+      lob: heldMs >= LOB_HOLD_MS,
+      charge: chargeLevel(heldMs),
+      curve: aftertouchCurve(gameState.ball, dx, dy),
     }
 
     // Clear one-shot inputs
-    if (input.shoot) keys.delete(" ")
+    released.clear()
     if (input.slide) keys.delete("shift")
     if (input.grab) keys.delete("e")
-    if (input.pass) keys.delete("q")
+    if (input.through) keys.delete("r")
+
+    // Switching is its own request; the next poll shows who we play as now
+    if (keys.has("c")) {
+      keys.delete("c")
+      fetch("/api/game", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: "switch", roomId, playerId: playerIdRef.current }),
+      }).catch(() => {})
+    }
 
     try {
       const controller = new AbortController()
@@ -234,6 +277,36 @@ export function GameCanvas({ roomId, playerTeam, playerName, onExit }: GameCanva
         }
         lastGoalCelebrationRef.current = newState.goalCelebration
 
+        // Whistle for half-time, penalties and full-time
+        const period = `${newState.phase}:${newState.half}`
+        if (lastPeriodRef.current && period !== lastPeriodRef.current && newState.phase !== "playing") {
+          sounds.whistle()
+        }
+        lastPeriodRef.current = period
+
+        // Whistle when the kickoff countdown runs out
+        const waitingForKickoff = (newState.kickoff?.countdown ?? 0) > 0
+        if (lastKickoffWaitRef.current && !waitingForKickoff) {
+          sounds.whistle()
+        }
+        lastKickoffWaitRef.current = waitingForKickoff
+
+        // Whistle when the ball goes out or for a foul, plus a booking if there is one
+        if (newState.setPiece && !lastSetPieceRef.current) {
+          sounds.whistle()
+          if (newState.setPiece.card) sounds.card()
+        }
+        lastSetPieceRef.current = !!newState.setPiece
+
+        // Shootout kick result
+        const kicks = newState.shootout ? newState.shootout.kicks.home.length + newState.shootout.kicks.away.length : 0
+        if (kicks > lastShootoutKicksRef.current && newState.shootout) {
+          const { kickingTeam } = newState.shootout
+          if (newState.shootout.kicks[kickingTeam].at(-1)) sounds.goal()
+          else sounds.miss()
+        }
+        lastShootoutKicksRef.current = kicks
+
         setGameState(newState)
         setConnectionError(null)
       }
@@ -242,7 +315,7 @@ export function GameCanvas({ roomId, playerTeam, playerName, onExit }: GameCanva
         console.error("Input error:", error)
       }
     }
-  }, [roomId, connected])
+  }, [roomId, connected, gameState.ball])
 
   // Game loop for rendering and polling
   useEffect(() => {
@@ -269,13 +342,21 @@ export function GameCanvas({ roomId, playerTeam, playerName, onExit }: GameCanva
       const ball = state.ball || DEFAULT_STATE.ball
 
       // Draw field using shared renderer
-      drawField(ctx, FIELD_WIDTH, FIELD_HEIGHT)
-
-      // Draw players sorted by Y
-      const sortedPlayers = [...players].sort((a, b) => (a?.y || 0) - (b?.y || 0))
+      const pitch = getPitch(state.rules)
+      drawField(ctx, pitch)
+      drawGround(ctx, pitch.width, pitch.height, state)
+
+      // Draw players sorted by Y; sent-off players have left the pitch
+      const sortedPlayers = players.filter((p) => p && !p.sentOff).sort((a, b) => (a?.y || 0) - (b?.y || 0))
+      // Mark the bot teammate the switch button would take over
+      const me = players.find((p) => p?.controllerId === playerIdRef.current)
+      const switchTargetId = me && findSwitchTarget(state, players, me, (p) => !p.controllerId)?.id
       sortedPlayers.forEach((player) => {
         if (!player) return
-        const isCurrentPlayer = player.id === playerIdRef.current
+        const isCurrentPlayer = player.controllerId === playerIdRef.current
+        const heldSince = Math.min(...HELD_KEYS.map((key) => heldSinceRef.current.get(key) ?? Number.POSITIVE_INFINITY))
+        const heldMs =
+          isCurrentPlayer && heldSince !== Number.POSITIVE_INFINITY ? performance.now() - heldSince : undefined
 
         const renderState: PlayerRenderState = {
           x: player.x,
@@ -283,14 +364,20 @@ export function GameCanvas({ roomId, playerTeam, playerName, onExit }: GameCanva
           team: player.team,
           isGoalkeeper: player.isGoalkeeper,
           isSliding: player.isSliding,
+          diving: divePose(player),
           hasBall: player.hasBall,
           facingX: player.facingX,
           facingY: player.facingY,
           isHuman: isCurrentPlayer,
           name: player.name || "PLAYER",
+          shirtNumber: player.shirtNumber,
           animFrame: player.animFrame ?? animFrameRef.current,
           velocityX: player.velocityX,
           velocityY: player.velocityY,
+          charge: heldMs === undefined ? undefined : chargeLevel(heldMs),
+          lobReady: heldMs !== undefined && heldMs >= LOB_HOLD_MS,
+          stamina: isCurrentPlayer ? player.stamina : undefined,
+          switchTarget: player.id === switchTargetId,
         }
 
         drawPlayer(ctx, renderState)
@@ -298,13 +385,15 @@ export function GameCanvas({ roomId, playerTeam, playerName, onExit }: GameCanva
 
       // Draw ball
       if (!ball.isGrabbed || !ball.ownerId) {
-        drawBall(ctx, ball.x, ball.y, BALL_SIZE)
+        drawBall(ctx, ball.x, ball.y, BALL_SIZE, ball.z)
       }
 
+      drawWeather(ctx, pitch.width, pitch.height, state)
+
       // Goal celebration
       if (state.goalCelebration > 0) {
         ctx.fillStyle = "rgba(0, 0, 0, 0.6)"
-        ctx.fillRect(0, 0, FIELD_WIDTH, FIELD_HEIGHT)
+        ctx.fillRect(0, 0, pitch.width, pitch.height)
 
         const flash = Math.floor(state.goalCelebration / 10) % 2 === 0
         ctx.fillStyle = flash ? (state.lastGoalTeam === "home" ? "#ff6b6b" : "#6b9fff") : "#ffffff"
@@ -312,18 +401,20 @@ export function GameCanvas({ roomId, playerTeam, playerName, onExit }: GameCanva
         ctx.textAlign = "center"
         ctx.strokeStyle = "#000"
         ctx.lineWidth = 4
-        ctx.strokeText("GOAL!", FIELD_WIDTH / 2, FIELD_HEIGHT / 2 - 20)
-        ctx.fillText("GOAL!", FIELD_WIDTH / 2, FIELD_HEIGHT / 2 - 20)
+        ctx.strokeText("GOAL!", pitch.width / 2, pitch.height / 2 - 20)
+        ctx.fillText("GOAL!", pitch.width / 2, pitch.height / 2 - 20)
 
         ctx.fillStyle = "#fff"
         ctx.font = "bold 24px monospace"
         ctx.fillText(
           state.lastGoalTeam === "home" ? "HOME TEAM SCORES!" : "AWAY TEAM SCORES!",
-          FIELD_WIDTH / 2,
-          FIELD_HEIGHT / 2 + 30,
+          pitch.width / 2,
+          pitch.height / 2 + 30,
         )
       }
 
+      drawPhaseOverlay(ctx, pitch.width, pitch.height, state)
+
       gameLoopRef.current = requestAnimationFrame(render)
     }
 
@@ -348,12 +439,13 @@ export function GameCanvas({ roomId, playerTeam, playerName, onExit }: GameCanva
   }
 
   const displayScore = gameState?.score || { home: 0, away: 0 }
-  const displayTime = gameState?.gameTime ?? 180
+  const displayTime = gameState?.gameTime ?? DEFAULT_STATE.gameTime
+  const pitch = getPitch(gameState.rules)
 
   return (
     <div className="flex flex-col items-center">
       {/* Header */}
-      <div className="w-full max-w-[800px] flex justify-between items-center mb-4 px-4">
+      <div className="w-full flex justify-between items-center mb-4 px-4" style={{ maxWidth: pitch.width }}>
         <button onClick={handleExit} className="text-[#00ff88] font-mono hover:text-[#00cc6a] transition-colors">
           &larr; EXIT
         </button>
@@ -365,8 +457,15 @@ export function GameCanvas({ roomId, playerTeam, playerName, onExit }: GameCanva
             <div className="text-[#4444ff] font-mono text-4xl font-bold">{displayScore.away}</div>
           </div>
           <div className="flex items-center justify-center gap-8 text-sm font-mono">
-            <span className="text-[#ff4444]">HOME</span>
-            <span className="text-[#4444ff]">AWAY</span>
+            <span className="text-[#ff4444]">
+              HOME
+              <CardTally players={(gameState || DEFAULT_STATE).players} team="home" />
+            </span>
+            <span className="text-[#888]">{getPeriodLabel(gameState || DEFAULT_STATE)}</span>
+            <span className="text-[#4444ff]">
+              AWAY
+              <CardTally players={(gameState || DEFAULT_STATE).players} team="away" />
+            </span>
           </div>
         </div>
 
@@ -381,16 +480,30 @@ export function GameCanvas({ roomId, playerTeam, playerName, onExit }: GameCanva
 
       {/* Game Canvas */}
       <div className="border-8 border-[#252542] shadow-[0_0_40px_rgba(0,255,136,0.2)] rounded">
-        <canvas ref={canvasRef} width={FIELD_WIDTH} height={FIELD_HEIGHT} className="block" />
+        <canvas ref={canvasRef} width={pitch.width} height={pitch.height} className="block" />
       </div>
 
+      {/* Result actions */}
+      {gameState?.phase === "finished" && (
+        <button
+          onClick={handleExit}
+          className="mt-4 px-6 py-2 bg-[#00ff88] text-[#1a1a2e] font-mono font-bold border-4 border-[#00cc6a]
+                     hover:bg-[#00cc6a] transition-colors"
+        >
+          MAIN MENU
+        </button>
+      )}
+
       {/* Controls reminder */}
       <div className="mt-4 bg-[#252542] p-3 rounded border border-[#3a3a5c]">
         <div className="text-[#666] font-mono text-xs text-center space-x-4">
           <span>WASD/ARROWS: Move</span>
-          <span>SPACE: Shoot</span>
-          <span>Q: Pass</span>
-          <span>SHIFT: Slide</span>
+          <span>SPACE: Shoot (hold to charge)</span>
+          <span>Q: Pass (hold to charge)</span>
+          <span>R: Through Ball</span>
+          <span>SHIFT: Slide / Dive (GK)</span>
+          <span>F: Sprint</span>
+          <span>C: Switch</span>
           <span>E: Grab (GK)</span>
         </div>
       </div>
@@ -404,7 +517,9 @@ export function GameCanvas({ roomId, playerTeam, playerName, onExit }: GameCanva
       </div>
 
       {/* Player count */}
-      <div className="mt-1 text-[#666] font-mono text-xs">Players in game: {gameState?.players?.length || 0}/10</div>
+      <div className="mt-1 text-[#666] font-mono text-xs">
+        Players in game: {gameState?.players?.filter((p) => p.controllerId).length || 0}/{gameState.rules.teamSize * 2}
+      </div>
     </div>
   )
 }
@@ -3,40 +3,105 @@
 import { useState, useEffect, useCallback } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import {
+  DEFAULT_RULES,
+  MAX_TEAM_SIZE,
+  PITCH_SIZES,
+  TIEBREAKS,
+  WEATHERS,
+  type PitchSize,
+  type RoomRules,
+  type Team,
+} from "@/lib/game-engine"
+import { DEFAULT_SQUADS, SQUADS, getSquad } from "@/lib/squads"
 import { sounds } from "@/lib/sounds"
+import { TIEBREAK_LABELS, WEATHER_LABELS } from "./menu-labels"
 
 interface Room {
   id: string
   name: string
   players: number
   maxPlayers: number
-  status: "waiting" | "playing"
+  status: "waiting" | "playing" | "finished"
+  squads: Record<Team, string>
+  rules: RoomRules
 }
 
+const HALF_LENGTHS = [
+  { value: 60, label: "1:00" },
+  { value: 90, label: "1:30" },
+  { value: 180, label: "3:00" },
+  { value: 300, label: "5:00" },
+]
+
+const TEAM_SIZES = Array.from({ length: MAX_TEAM_SIZE }, (_, i) => ({ value: i + 1, label: `${i + 1}V${i + 1}` }))
+
+const GOAL_WIDTHS = [
+  { value: 110, label: "NARROW" },
+  { value: DEFAULT_RULES.goalWidth, label: "NORMAL" },
+  { value: 190, label: "WIDE" },
+]
+
+const PITCH_SIZE_LABELS: Record<PitchSize, string> = {
+  futsal: "FUTSAL COURT",
+  standard: "STANDARD",
+  full: "FULL PITCH",
+}
+
+const PITCH_SPEEDS = [
+  { value: 0.99, label: "FAST" },
+  { value: DEFAULT_RULES.ballFriction, label: "NORMAL" },
+  { value: 0.97, label: "HEAVY" },
+]
+
+// One line summing up a room's rules for the room list, naming only what differs from normal
+function describeRules(rules: RoomRules): string {
+  const label = (options: { value: number; label: string }[], value: number) =>
+    options.find((option) => option.value === value)?.label
+  const parts = [
+    `${rules.teamSize}V${rules.teamSize}`,
+    `${label(HALF_LENGTHS, rules.halfLength) ?? `${rules.halfLength}S`} HALVES`,
+  ]
+  if (rules.pitch !== DEFAULT_RULES.pitch) parts.push(PITCH_SIZE_LABELS[rules.pitch])
+  if (rules.goalWidth !== DEFAULT_RULES.goalWidth)
+    parts.push(`${label(GOAL_WIDTHS, rules.goalWidth) ?? "CUSTOM"} GOALS`)
+  if (rules.ballFriction !== DEFAULT_RULES.ballFriction)
+    parts.push(`${label(PITCH_SPEEDS, rules.ballFriction) ?? "CUSTOM"} PITCH`)
+  if (!rules.slideTackles) parts.push("NO SLIDES")
+  if (rules.weather !== DEFAULT_RULES.weather) parts.push(WEATHER_LABELS[rules.weather])
+  return parts.join(" · ")
+}
+
+const ROOMS_ERROR = "Failed to load rooms. Please try again."
+
 interface GameLobbyProps {
   onJoinGame: (roomId: string, team: "home" | "away", playerName: string) => void
   onBack: () => void
+  initialError?: string | null // shown on arrival, e.g. why the last join was turned down
 }
 
-export function GameLobby({ onJoinGame, onBack }: GameLobbyProps) {
+export function GameLobby({ onJoinGame, onBack, initialError = null }: GameLobbyProps) {
   const [rooms, setRooms] = useState<Room[]>([])
   const [newRoomName, setNewRoomName] = useState("")
   const [selectedTeam, setSelectedTeam] = useState<"home" | "away">("home")
   const [isLoading, setIsLoading] = useState(true)
   const [playerName, setPlayerName] = useState("")
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(initialError)
   const [isCreating, setIsCreating] = useState(false)
+  const [rules, setRules] = useState<RoomRules>(DEFAULT_RULES)
+  const [squads, setSquads] = useState<Record<Team, string>>(DEFAULT_SQUADS)
 
   const fetchRooms = useCallback(async () => {
     try {
-      setError(null)
+      // Only clear a failed load, so other messages stay up until dismissed
+      setError((current) => (current === ROOMS_ERROR ? null : current))
       const res = await fetch("/api/rooms")
       if (!res.ok) throw new Error("Failed to fetch rooms")
       const data = await res.json()
       setRooms(data.rooms || [])
     } catch (error) {
       console.error("Failed to fetch rooms:", error)
-      setError("Failed to load rooms. Please try again.")
+      setError(ROOMS_ERROR)
     } finally {
       setIsLoading(false)
     }
@@ -61,7 +126,7 @@ export function GameLobby({ onJoinGame, onBack }: GameLobbyProps) {
       const res = await fetch("/api/rooms", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name: newRoomName.trim() }),
+        body: JSON.stringify({ name: newRoomName.trim(), rules, squads }),
       })
 
       if (!res.ok) {
@@ -184,6 +249,87 @@ export function GameLobby({ onJoinGame, onBack }: GameLobbyProps) {
             {isCreating ? "..." : "CREATE"}
           </Button>
         </div>
+        <RuleOptions
+          label="TEAM SIZE"
+          options={TEAM_SIZES}
+          value={rules.teamSize}
+          onChange={(teamSize) => setRules({ ...rules, teamSize })}
+        />
+        <RuleOptions
+          label="HALF LENGTH"
+          options={HALF_LENGTHS}
+          value={rules.halfLength}
+          onChange={(halfLength) => setRules({ ...rules, halfLength })}
+        />
+        <RuleOptions
+          label="IF DRAWN"
+          options={TIEBREAKS.map((tiebreak) => ({ value: tiebreak, label: TIEBREAK_LABELS[tiebreak] }))}
+          value={rules.tiebreak}
+          onChange={(tiebreak) => setRules({ ...rules, tiebreak })}
+        />
+        <RuleOptions
+          label="OUT OF PLAY"
+          options={[
+            { value: false, label: "ARCADE (BOUNCE)" },
+            { value: true, label: "CLASSIC (THROW-INS)" },
+          ]}
+          value={rules.classicRules}
+          onChange={(classicRules) => setRules({ ...rules, classicRules })}
+        />
+        <RuleOptions
+          label="OFFSIDE"
+          options={[
+            { value: false, label: "OFF" },
+            { value: true, label: "ON" },
+          ]}
+          value={rules.offside}
+          onChange={(offside) => setRules({ ...rules, offside })}
+        />
+        <RuleOptions
+          label="PITCH SIZE"
+          options={PITCH_SIZES.map((pitch) => ({ value: pitch, label: PITCH_SIZE_LABELS[pitch] }))}
+          value={rules.pitch}
+          onChange={(pitch) => setRules({ ...rules, pitch })}
+        />
+        <RuleOptions
+          label="GOALS"
+          options={GOAL_WIDTHS}
+          value={rules.goalWidth}
+          onChange={(goalWidth) => setRules({ ...rules, goalWidth })}
+        />
+        <RuleOptions
+          label="PITCH SPEED"
+          options={PITCH_SPEEDS}
+          value={rules.ballFriction}
+          onChange={(ballFriction) => setRules({ ...rules, ballFriction })}
+        />
+        <RuleOptions
+          label="WEATHER"
+          options={WEATHERS.map((weather) => ({ value: weather, label: WEATHER_LABELS[weather] }))}
+          value={rules.weather}
+          onChange={(weather) => setRules({ ...rules, weather })}
+        />
+        <RuleOptions
+          label="SLIDE TACKLES"
+          options={[
+            { value: true, label: "ON" },
+            { value: false, label: "OFF" },
+          ]}
+          value={rules.slideTackles}
+          onChange={(slideTackles) => setRules({ ...rules, slideTackles })}
+        />
+        <RuleOptions
+          label="HOME SQUAD"
+          options={SQUADS.map((squad) => ({ value: squad.id, label: squad.name }))}
+          value={squads.home}
+          onChange={(home) => setSquads({ ...squads, home })}
+        />
+        <RuleOptions
+          label="AWAY SQUAD"
+          options={SQUADS.map((squad) => ({ value: squad.id, label: squad.name }))}
+          value={squads.away}
+          onChange={(away) => setSquads({ ...squads, away })}
+        />
       </div>
 
       {/* Room List */}
@@ -218,16 +364,28 @@ export function GameLobby({ onJoinGame, onBack }: GameLobbyProps) {
               >
                 <div>
                   <div className="text-[#00ff88] font-mono font-bold">{room.name}</div>
+                  <div className="text-[#888] font-mono text-xs">
+                    {getSquad(room.squads.home).name} VS {getSquad(room.squads.away).name}
+                  </div>
+                  <div className="text-[#888] font-mono text-xs">{describeRules(room.rules)}</div>
                   <div className="text-[#666] font-mono text-xs">
                     {room.players}/{room.maxPlayers} PLAYERS
-                    <span className={`ml-2 ${room.status === "playing" ? "text-[#f4a261]" : "text-[#00ff88]"}`}>
+                    <span
+                      className={`ml-2 ${
+                        room.status === "playing"
+                          ? "text-[#f4a261]"
+                          : room.status === "finished"
+                            ? "text-[#666]"
+                            : "text-[#00ff88]"
+                      }`}
+                    >
                       {room.status.toUpperCase()}
                     </span>
                   </div>
                 </div>
                 <Button
                   onClick={() => joinRoom(room.id)}
-                  disabled={room.players >= room.maxPlayers || !playerName.trim()}
+                  disabled={room.players >= room.maxPlayers || room.status === "finished" || !playerName.trim()}
                   className="bg-[#00ff88] text-[#1a1a2e] font-mono font-bold hover:bg-[#00cc6a]
                              disabled:opacity-50 disabled:cursor-not-allowed group-hover:scale-105 transition-transform"
                 >
@@ -246,3 +404,38 @@ export function GameLobby({ onJoinGame, onBack }: GameLobbyProps) {
     </div>
   )
 }
+
+interface RuleOptionsProps<T> {
+  label: string
+  options: { value: T; label: string }[]
+  value: T
+  onChange: (value: T) => void
+}
+
+// One row of mutually exclusive buttons for a room rule
+function RuleOptions<T extends string | number | boolean>({ label, options, value, onChange }: RuleOptionsProps<T>) {
+  return (
+    <>
+      <label className="text-[#888] font-mono text-xs block mt-3 mb-2">{label}</label>
+      <div className="flex gap-2">
+        {options.map((option) => (
+          <button
+            key={String(option.value)}
+            onClick={() => {
+              sounds.select()
+              onChange(option.value)
+            }}
+            className={`flex-1 py-1 font-mono text-xs font-bold border-2 transition-all
+                       ${
+                         value === option.value
+                           ? "bg-[#00ff88] border-[#00cc6a] text-[#1a1a2e]"
+                           : "bg-[#3a3a5c] border-[#4a4a6c] text-[#888] hover:text-white"
+                       }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </>
+  )
+}
@@ -1,149 +1,186 @@
 "use client"
 
-import { useEffect, useRef, useState, useCallback } from "react"
+import { useEffect, useRef, useState, useCallback, useMemo } from "react"
 import { sounds } from "@/lib/sounds"
-import { drawPlayer, drawBall, drawField, type PlayerRenderState } from "@/lib/player-renderer"
+import { CardTally } from "./card-tally"
+import { DIFFICULTY_LABELS } from "./menu-labels"
+import {
+  drawPlayer,
+  drawBall,
+  drawField,
+  drawGround,
+  drawPhaseOverlay,
+  drawWeather,
+  divePose,
+  getPeriodLabel,
+  type PlayerRenderState,
+} from "@/lib/player-renderer"
+import { withAIInputs } from "@/lib/game-ai"
+import { SWITCH_HOLD_TICKS, findSwitchTarget, updateControl, type AutoSwitch } from "@/lib/player-control"
+import {
+  BALL_SIZE,
+  LOB_HOLD_MS,
+  MAX_CATCH_UP_TICKS,
+  TICK_MS,
+  aftertouchCurve,
+  chargeLevel,
+  createGameRoom,
+  createSeed,
+  getPitch,
+  otherTeam,
+  resetPositions,
+  step,
+  type Ball,
+  type GameState,
+  type Player,
+  type PlayerInput,
+  type RoomRules,
+  type Team,
+} from "@/lib/game-engine"
+import { createSquadPlayer, getSquad, squadSlots } from "@/lib/squads"
 
 interface LocalGameCanvasProps {
+  rules: RoomRules
+  squads: Record<Team, string>
+  autoSwitch: AutoSwitch
+  cpuTeam: Team | null // side the computer plays on its own, null for two players
   onExit: () => void
 }
 
-interface Player {
-  id: string
-  name: string
-  x: number
-  y: number
-  team: "home" | "away"
-  isGoalkeeper: boolean
-  hasBall: boolean
-  isSliding: boolean
-  slideTimer: number
-  velocityX: number
-  velocityY: number
-  facingX: number
-  facingY: number
-  isHuman: boolean
-  animFrame: number
+interface KeyBindings {
+  up: string
+  down: string
+  left: string
+  right: string
+  shoot: string
+  pass: string
+  slide: string
+  grab: string
+  through: string
+  sprint: string
+  switch: string
 }
 
-interface Ball {
-  x: number
-  y: number
-  velocityX: number
-  velocityY: number
-  ownerId: string | null
-  isGrabbed: boolean
+// Player 1: WASD + Space/Q/Shift/E/R/F/C
+const P1_KEYS: KeyBindings = {
+  up: "w",
+  down: "s",
+  left: "a",
+  right: "d",
+  shoot: " ",
+  pass: "q",
+  slide: "shift",
+  grab: "e",
+  through: "r",
+  sprint: "f",
+  switch: "c",
 }
 
-interface GameState {
-  players: Player[]
-  ball: Ball
-  score: { home: number; away: number }
-  gameTime: number
-  isPlaying: boolean
-  lastGoalTeam: "home" | "away" | null
-  goalCelebration: number
+// Player 2: Arrows + Enter/Period/Slash/0/L/Comma/M
+const P2_KEYS: KeyBindings = {
+  up: "arrowup",
+  down: "arrowdown",
+  left: "arrowleft",
+  right: "arrowright",
+  shoot: "enter",
+  pass: ".",
+  slide: "/",
+  grab: "0",
+  through: "l",
+  sprint: ",",
+  switch: "m",
 }
 
-const FIELD_WIDTH = 800
-const FIELD_HEIGHT = 500
-const GOAL_HEIGHT = 150
-const PLAYER_SIZE = 24
-const BALL_SIZE = 12
-const PLAYER_SPEED = 3.5
-const BALL_FRICTION = 0.98
-const SHOOT_POWER = 14
-const PASS_POWER = 9
-const SLIDE_SPEED = 7
-const SLIDE_DURATION = 25
-const AI_SPEED = 2.8
-
-function createInitialState(): GameState {
+// Shoot and pass fire when the button is let go, with power from how long it was held
+const HELD_KEYS = [P1_KEYS.shoot, P1_KEYS.pass, P2_KEYS.shoot, P2_KEYS.pass]
+
+const TEAMS: Team[] = ["home", "away"]
+const TEAM_BORDERS: Record<Team, string> = { home: "border-[#ff4444]", away: "border-[#4444ff]" }
+const TEAM_TEXT: Record<Team, string> = { home: "text-[#ff4444]", away: "text-[#4444ff]" }
+
+// Key sets each side is played with: one each for two players, both for a lone player
+// against the computer, and none for the computer's side
+function teamControls(cpuTeam: Team | null): Record<Team, KeyBindings[]> {
+  if (!cpuTeam) return { home: [P1_KEYS], away: [P2_KEYS] }
+  const both = [P1_KEYS, P2_KEYS]
+  return cpuTeam === "home" ? { home: [], away: both } : { home: both, away: [] }
+}
+
+function createInitialState(rules: RoomRules, squads: Record<Team, string>): GameState {
   const players: Player[] = []
 
-  const homePositions = [
-    { x: 50, y: FIELD_HEIGHT / 2, isGoalkeeper: true },
-    { x: 150, y: 150, isGoalkeeper: false },
-    { x: 150, y: 350, isGoalkeeper: false },
-    { x: 300, y: 200, isGoalkeeper: false },
-    { x: 300, y: 300, isGoalkeeper: false },
-  ]
-
-  homePositions.forEach((pos, i) => {
-    players.push({
-      id: `home_${i}`,
-      name: i === 0 ? "GK1" : `P${i}`,
-      x: pos.x,
-      y: pos.y,
-      team: "home",
-      isGoalkeeper: pos.isGoalkeeper,
-      hasBall: false,
-      isSliding: false,
-      slideTimer: 0,
-      velocityX: 0,
-      velocityY: 0,
-      facingX: 1,
-      facingY: 0,
-      isHuman: false,
-      animFrame: Math.random() * 100,
-    })
-  })
+  for (const team of TEAMS) {
+    for (const slot of squadSlots(rules.teamSize)) {
+      players.push(createSquadPlayer(`${team}_${slot}`, squads[team], team, slot, false))
+    }
+  }
 
-  const awayPositions = [
-    { x: FIELD_WIDTH - 50, y: FIELD_HEIGHT / 2, isGoalkeeper: true },
-    { x: FIELD_WIDTH - 150, y: 150, isGoalkeeper: false },
-    { x: FIELD_WIDTH - 150, y: 350, isGoalkeeper: false },
-    { x: FIELD_WIDTH - 300, y: 200, isGoalkeeper: false },
-    { x: FIELD_WIDTH - 300, y: 300, isGoalkeeper: false },
-  ]
-
-  awayPositions.forEach((pos, i) => {
-    players.push({
-      id: `away_${i}`,
-      name: i === 0 ? "GK2" : `A${i}`,
-      x: pos.x,
-      y: pos.y,
-      team: "away",
-      isGoalkeeper: pos.isGoalkeeper,
-      hasBall: false,
-      isSliding: false,
-      slideTimer: 0,
-      velocityX: 0,
-      velocityY: 0,
-      facingX: -1,
-      facingY: 0,
-      isHuman: false,
-      animFrame: Math.random() * 100,
-    })
-  })
+  // Line everyone up on this match's pitch
+  const state = { ...createGameRoom(createSeed(), rules), players }
+  resetPositions(state, "home")
+  return state
+}
 
-  return {
-    players,
-    ball: {
-      x: FIELD_WIDTH / 2,
-      y: FIELD_HEIGHT / 2,
-      velocityX: 0,
-      velocityY: 0,
-      ownerId: null,
-      isGrabbed: false,
-    },
-    score: { home: 0, away: 0 },
-    gameTime: 180,
-    isPlaying: true,
-    lastGoalTeam: null,
-    goalCelebration: 0,
+// `released` maps shoot and pass buttons let go since the last read to how long they were
+// held. With more than one key set, a button counts as pressed on any of them.
+function readKeys(keys: Set<string>, released: Map<string, number>, bindings: KeyBindings[], ball: Ball): PlayerInput {
+  const pressed = (action: keyof KeyBindings) => bindings.some((set) => keys.has(set[action]))
+  let dx = 0
+  let dy = 0
+  if (pressed("up")) dy -= 1
+  if (pressed("down")) dy += 1
+  if (pressed("left")) dx -= 1
+  if (pressed("right")) dx += 1
+
+  const chargeKeys = bindings.flatMap((set) => [set.shoot, set.pass])
+  const heldMs = Math.max(0, ...chargeKeys.map((key) => released.get(key) ?? 0))
+  const input: PlayerInput = {
+    dx,
+    dy,
+    shoot: bindings.some((set) => released.has(set.shoot)),
+    pass: bindings.some((set) => released.has(set.pass)),
+    slide: pressed("slide"),
+    grab: pressed("grab"),
+    through: pressed("through"),
+    sprint: pressed("sprint"),
+    lob: heldMs >= LOB_HOLD_MS,
+    charge: chargeLevel(heldMs),
+    curve: aftertouchCurve(ball, dx, dy),
   }
+
+  // Clear one-shot inputs
+  bindings.forEach((set) => {
+    released.delete(set.shoot)
+    released.delete(set.pass)
+    if (input.slide) keys.delete(set.slide)
+    if (input.grab) keys.delete(set.grab)
+    if (input.through) keys.delete(set.through)
+  })
+
+  return input
+}
+
+// How long this player's shoot or pass button has been down, for the charge meter
+function heldFor(heldSince: Map<string, number>, bindings: KeyBindings[], now: number): number | undefined {
+  const since = bindings.flatMap((set) => [heldSince.get(set.shoot), heldSince.get(set.pass)])
+  const down = since.filter((time): time is number => time !== undefined)
+  return down.length > 0 ? now - Math.min(...down) : undefined
 }
 
-export function LocalGameCanvas({ onExit }: LocalGameCanvasProps) {
+export function LocalGameCanvas({ rules, squads, autoSwitch, cpuTeam, onExit }: LocalGameCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const gameLoopRef = useRef<number | null>(null)
   const keysRef = useRef<Set<string>>(new Set())
-  const gameStateRef = useRef<GameState>(createInitialState())
+  const heldSinceRef = useRef<Map<string, number>>(new Map())
+  const releasedRef = useRef<Map<string, number>>(new Map())
+  // Tick until which each side's last switch press holds off auto-switching
+  const switchHeldUntilRef = useRef<Record<Team, number>>({ home: 0, away: 0 })
+  const gameStateRef = useRef<GameState>(createInitialState(rules, squads))
   const lastTimeRef = useRef<number>(0)
   const timeAccumulatorRef = useRef<number>(0)
 
   const [displayState, setDisplayState] = useState<GameState>(gameStateRef.current)
+  const controls = useMemo(() => teamControls(cpuTeam), [cpuTeam])
 
   // Initialize sounds on first interaction
   useEffect(() => {
@@ -163,7 +200,11 @@ export function LocalGameCanvas({ onExit }: LocalGameCanvasProps) {
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       const key = e.key.toLowerCase()
-      keysRef.current.add(key)
+      if (HELD_KEYS.includes(key)) {
+        if (!heldSinceRef.current.has(key)) heldSinceRef.current.set(key, performance.now())
+      } else {
+        keysRef.current.add(key)
+      }
 
       const preventKeys = [
         "w",
@@ -174,6 +215,9 @@ export function LocalGameCanvas({ onExit }: LocalGameCanvasProps) {
         "shift",
         "e",
         "q",
+        "r",
+        "f",
+        "c",
         "arrowup",
         "arrowdown",
         "arrowleft",
@@ -182,6 +226,9 @@ export function LocalGameCanvas({ onExit }: LocalGameCanvasProps) {
         "/",
         "0",
         ".",
+        "l",
+        ",",
+        "m",
       ]
       if (preventKeys.includes(key)) {
         e.preventDefault()
@@ -189,7 +236,13 @@ export function LocalGameCanvas({ onExit }: LocalGameCanvasProps) {
     }
 
     const handleKeyUp = (e: KeyboardEvent) => {
-      keysRef.current.delete(e.key.toLowerCase())
+      const key = e.key.toLowerCase()
+      const heldSince = heldSinceRef.current.get(key)
+      if (heldSince !== undefined) {
+        heldSinceRef.current.delete(key)
+        releasedRef.current.set(key, performance.now() - heldSince)
+      }
+      keysRef.current.delete(key)
     }
 
     window.addEventListener("keydown", handleKeyDown)
@@ -201,432 +254,50 @@ export function LocalGameCanvas({ onExit }: LocalGameCanvasProps) {
     }
   }, [])
 
-  const resetPositions = useCallback((scoringTeam: "home" | "away" | null) => {
-    const state = gameStateRef.current
-    state.ball = {
-      x: FIELD_WIDTH / 2,
-      y: FIELD_HEIGHT / 2,
-      velocityX: 0,
-      velocityY: 0,
-      ownerId: null,
-      isGrabbed: false,
-    }
-
-    const homePositions = [
-      { x: 50, y: FIELD_HEIGHT / 2 },
-      { x: 150, y: 150 },
-      { x: 150, y: 350 },
-      { x: 300, y: 200 },
-      { x: 300, y: 300 },
-    ]
-
-    const awayPositions = [
-      { x: FIELD_WIDTH - 50, y: FIELD_HEIGHT / 2 },
-      { x: FIELD_WIDTH - 150, y: 150 },
-      { x: FIELD_WIDTH - 150, y: 350 },
-      { x: FIELD_WIDTH - 300, y: 200 },
-      { x: FIELD_WIDTH - 300, y: 300 },
-    ]
-
-    state.players.forEach((player) => {
-      const positions = player.team === "home" ? homePositions : awayPositions
-      const index = Number.parseInt(player.id.split("_")[1])
-      player.x = positions[index].x
-      player.y = positions[index].y
-      player.hasBall = false
-      player.isSliding = false
-      player.velocityX = 0
-      player.velocityY = 0
-      player.facingX = player.team === "home" ? 1 : -1
-      player.facingY = 0
-    })
-
-    sounds.whistle()
-  }, [])
-
-  const findClosestPlayerToBall = useCallback((team: "home" | "away") => {
-    const state = gameStateRef.current
-    const teamPlayers = state.players.filter((p) => p.team === team)
-    let closest: Player | null = null
-    let minDist = Number.POSITIVE_INFINITY
-
-    teamPlayers.forEach((player) => {
-      const dx = player.x - state.ball.x
-      const dy = player.y - state.ball.y
-      const dist = Math.sqrt(dx * dx + dy * dy)
-      if (dist < minDist) {
-        minDist = dist
-        closest = player
-      }
-    })
-
-    return closest
-  }, [])
-
-  const findNearestTeammate = useCallback((fromPlayer: Player): Player | null => {
-    const state = gameStateRef.current
-    const teammates = state.players.filter((p) => p.team === fromPlayer.team && p.id !== fromPlayer.id)
-
-    if (teammates.length === 0) return null
-
-    let nearest: Player | null = null
-    let minDist = Number.POSITIVE_INFINITY
-
-    teammates.forEach((tm) => {
-      const dx = tm.x - fromPlayer.x
-      const dy = tm.y - fromPlayer.y
-      const dist = Math.sqrt(dx * dx + dy * dy)
-      const dotProduct = dx * fromPlayer.facingX + dy * fromPlayer.facingY
-      const adjustedDist = dotProduct > 0 ? dist * 0.6 : dist * 1.4
-
-      if (adjustedDist < minDist) {
-        minDist = adjustedDist
-        nearest = tm
-      }
-    })
-
-    return nearest
-  }, [])
-
   const updateControlledPlayers = useCallback(() => {
     const state = gameStateRef.current
-    const closestHome = findClosestPlayerToBall("home")
-    const closestAway = findClosestPlayerToBall("away")
-
-    state.players.forEach((player) => {
-      if (player.team === "home") {
-        player.isHuman = player === closestHome
-      } else {
-        player.isHuman = player === closestAway
-      }
-    })
-  }, [findClosestPlayerToBall])
-
-  const updateAI = useCallback((player: Player) => {
-    const state = gameStateRef.current
-    const ball = state.ball
-
-    if (player.isSliding) return
-
-    let targetX = player.x
-    let targetY = player.y
-
-    if (player.hasBall) {
-      targetX = player.team === "home" ? FIELD_WIDTH - 100 : 100
-      targetY = FIELD_HEIGHT / 2
-
-      const goalX = player.team === "home" ? FIELD_WIDTH - 50 : 50
-      const distToGoal = Math.abs(player.x - goalX)
-      if (distToGoal < 200) {
-        player.hasBall = false
-        state.ball.ownerId = null
-        state.ball.isGrabbed = false
-        state.ball.velocityX = player.facingX * SHOOT_POWER
-        state.ball.velocityY = (Math.random() - 0.5) * 6
-        sounds.kick()
-      }
-    } else if (player.isGoalkeeper) {
-      targetX = player.team === "home" ? 50 : FIELD_WIDTH - 50
-      targetY = Math.max(FIELD_HEIGHT / 2 - 70, Math.min(FIELD_HEIGHT / 2 + 70, ball.y))
-    } else {
-      if (!ball.ownerId) {
-        targetX = ball.x
-        targetY = ball.y
-      } else {
-        const ballOwner = state.players.find((p) => p.id === ball.ownerId)
-        if (ballOwner && ballOwner.team !== player.team) {
-          targetX = ballOwner.x + (player.team === "home" ? -40 : 40)
-          targetY = ballOwner.y
-        } else {
-          const baseX = player.team === "home" ? FIELD_WIDTH * 0.6 : FIELD_WIDTH * 0.4
-          targetX = baseX + (Math.random() - 0.5) * 80
-          targetY = player.y + (Math.random() - 0.5) * 40
+    const keys = keysRef.current
+    const heldUntil = switchHeldUntilRef.current
+
+    TEAMS.forEach((team) => {
+      let current = state.players.find((player) => player.team === team && player.isHuman) ?? null
+
+      const switchKeys = controls[team].map((set) => set.switch).filter((key) => keys.has(key))
+      if (switchKeys.length > 0) {
+        switchKeys.forEach((key) => keys.delete(key))
+        const target = current && findSwitchTarget(state, state.players, current)
+        if (target) {
+          current = target
+          heldUntil[team] = state.tick + SWITCH_HOLD_TICKS
         }
       }
-    }
 
-    const dx = targetX - player.x
-    const dy = targetY - player.y
-    const dist = Math.sqrt(dx * dx + dy * dy)
-
-    if (dist > 5) {
-      player.velocityX = (dx / dist) * AI_SPEED
-      player.velocityY = (dy / dist) * AI_SPEED
-      player.facingX = dx / dist
-      player.facingY = dy / dist
-    } else {
-      player.velocityX *= 0.8
-      player.velocityY *= 0.8
-    }
-  }, [])
+      // Nobody steers the computer's side, so the AI plays every one of them
+      const next =
+        controls[team].length > 0 ? updateControl(state, team, current, autoSwitch, state.tick < heldUntil[team]) : null
+      state.players.forEach((player) => {
+        if (player.team === team) player.isHuman = player === next
+      })
+    })
+  }, [autoSwitch, controls])
 
   const updateGame = useCallback(() => {
     const state = gameStateRef.current
-    const keys = keysRef.current
-
-    if (state.goalCelebration > 0) {
-      state.goalCelebration--
-      if (state.goalCelebration === 0) {
-        resetPositions(state.lastGoalTeam)
-      }
-      return
-    }
-
-    updateControlledPlayers()
-
-    // Player 1 input (WASD + Space/Shift/E/Q)
-    const p1 = state.players.find((p) => p.team === "home" && p.isHuman)
-    if (p1 && !p1.isSliding) {
-      let dx = 0
-      let dy = 0
-      if (keys.has("w")) dy -= 1
-      if (keys.has("s")) dy += 1
-      if (keys.has("a")) dx -= 1
-      if (keys.has("d")) dx += 1
-
-      if (dx !== 0 || dy !== 0) {
-        const mag = Math.sqrt(dx * dx + dy * dy)
-        p1.facingX = dx / mag
-        p1.facingY = dy / mag
-        p1.velocityX = (dx / mag) * PLAYER_SPEED
-        p1.velocityY = (dy / mag) * PLAYER_SPEED
-      }
-
-      if (keys.has(" ") && p1.hasBall) {
-        p1.hasBall = false
-        state.ball.ownerId = null
-        state.ball.isGrabbed = false
-        state.ball.velocityX = p1.facingX * SHOOT_POWER
-        state.ball.velocityY = p1.facingY * SHOOT_POWER
-        sounds.kick()
-        keys.delete(" ")
-      }
-
-      if (keys.has("q") && p1.hasBall) {
-        const teammate = findNearestTeammate(p1)
-        if (teammate) {
-          p1.hasBall = false
-          state.ball.ownerId = null
-          state.ball.isGrabbed = false
-          const passDir = { x: teammate.x - p1.x, y: teammate.y - p1.y }
-          const passDist = Math.sqrt(passDir.x ** 2 + passDir.y ** 2)
-          state.ball.velocityX = (passDir.x / passDist) * PASS_POWER
-          state.ball.velocityY = (passDir.y / passDist) * PASS_POWER
-          sounds.pass()
-        }
-        keys.delete("q")
-      }
-
-      if (keys.has("shift") && !p1.isSliding && !p1.hasBall) {
-        p1.isSliding = true
-        p1.slideTimer = SLIDE_DURATION
-        sounds.slide()
-        keys.delete("shift")
-      }
-
-      if (keys.has("e") && p1.isGoalkeeper && !state.ball.ownerId) {
-        const bdx = p1.x - state.ball.x
-        const bdy = p1.y - state.ball.y
-        const dist = Math.sqrt(bdx * bdx + bdy * bdy)
-        if (dist < PLAYER_SIZE * 2.5) {
-          p1.hasBall = true
-          state.ball.ownerId = p1.id
-          state.ball.isGrabbed = true
-          sounds.grab()
-        }
-        keys.delete("e")
-      }
-    }
-
-    // Player 2 input (Arrows + Enter/Slash/0/Period)
-    const p2 = state.players.find((p) => p.team === "away" && p.isHuman)
-    if (p2 && !p2.isSliding) {
-      let dx = 0
-      let dy = 0
-      if (keys.has("arrowup")) dy -= 1
-      if (keys.has("arrowdown")) dy += 1
-      if (keys.has("arrowleft")) dx -= 1
-      if (keys.has("arrowright")) dx += 1
-
-      if (dx !== 0 || dy !== 0) {
-        const mag = Math.sqrt(dx * dx + dy * dy)
-        p2.facingX = dx / mag
-        p2.facingY = dy / mag
-        p2.velocityX = (dx / mag) * PLAYER_SPEED
-        p2.velocityY = (dy / mag) * PLAYER_SPEED
-      }
-
-      if (keys.has("enter") && p2.hasBall) {
-        p2.hasBall = false
-        state.ball.ownerId = null
-        state.ball.isGrabbed = false
-        state.ball.velocityX = p2.facingX * SHOOT_POWER
-        state.ball.velocityY = p2.facingY * SHOOT_POWER
-        sounds.kick()
-        keys.delete("enter")
-      }
-
-      if (keys.has(".") && p2.hasBall) {
-        const teammate = findNearestTeammate(p2)
-        if (teammate) {
-          p2.hasBall = false
-          state.ball.ownerId = null
-          state.ball.isGrabbed = false
-          const passDir = { x: teammate.x - p2.x, y: teammate.y - p2.y }
-          const passDist = Math.sqrt(passDir.x ** 2 + passDir.y ** 2)
-          state.ball.velocityX = (passDir.x / passDist) * PASS_POWER
-          state.ball.velocityY = (passDir.y / passDist) * PASS_POWER
-          sounds.pass()
-        }
-        keys.delete(".")
-      }
-
-      if (keys.has("/") && !p2.isSliding && !p2.hasBall) {
-        p2.isSliding = true
-        p2.slideTimer = SLIDE_DURATION
-        sounds.slide()
-        keys.delete("/")
-      }
-
-      if (keys.has("0") && p2.isGoalkeeper && !state.ball.ownerId) {
-        const bdx = p2.x - state.ball.x
-        const bdy = p2.y - state.ball.y
-        const dist = Math.sqrt(bdx * bdx + bdy * bdy)
-        if (dist < PLAYER_SIZE * 2.5) {
-          p2.hasBall = true
-          state.ball.ownerId = p2.id
-          state.ball.isGrabbed = true
-          sounds.grab()
-        }
-        keys.delete("0")
-      }
-    }
+    const inputs: Record<string, PlayerInput> = {}
 
-    // Update all players
-    state.players.forEach((player) => {
-      if (!player.isHuman) {
-        updateAI(player)
-      }
+    if (state.goalCelebration === 0) {
+      updateControlledPlayers()
 
-      // Update animation frame based on movement
-      if (Math.abs(player.velocityX) > 0.3 || Math.abs(player.velocityY) > 0.3) {
-        player.animFrame += 0.5
-      }
-
-      if (player.isSliding) {
-        player.slideTimer--
-        if (player.slideTimer <= 0) {
-          player.isSliding = false
-        } else {
-          player.x += player.facingX * SLIDE_SPEED
-          player.y += player.facingY * SLIDE_SPEED
+      state.players.forEach((player) => {
+        if (player.isHuman) {
+          inputs[player.id] = readKeys(keysRef.current, releasedRef.current, controls[player.team], state.ball)
         }
-      }
-
-      player.x += player.velocityX
-      player.y += player.velocityY
-      player.velocityX *= 0.88
-      player.velocityY *= 0.88
-
-      player.x = Math.max(PLAYER_SIZE, Math.min(FIELD_WIDTH - PLAYER_SIZE, player.x))
-      player.y = Math.max(PLAYER_SIZE, Math.min(FIELD_HEIGHT - PLAYER_SIZE, player.y))
-
-      if (player.hasBall && !state.ball.isGrabbed) {
-        state.ball.x = player.x + player.facingX * (PLAYER_SIZE / 2 + BALL_SIZE / 2 + 2)
-        state.ball.y = player.y + player.facingY * (PLAYER_SIZE / 2 + BALL_SIZE / 2 + 2)
-        state.ball.velocityX = 0
-        state.ball.velocityY = 0
-        state.ball.ownerId = player.id
-      }
-
-      if (player.isGoalkeeper && player.hasBall && state.ball.isGrabbed) {
-        state.ball.x = player.x
-        state.ball.y = player.y - PLAYER_SIZE / 2 - BALL_SIZE
-      }
-    })
-
-    // Ball physics
-    if (!state.ball.ownerId) {
-      state.ball.x += state.ball.velocityX
-      state.ball.y += state.ball.velocityY
-      state.ball.velocityX *= BALL_FRICTION
-      state.ball.velocityY *= BALL_FRICTION
-
-      // Wall collisions
-      if (state.ball.y < BALL_SIZE || state.ball.y > FIELD_HEIGHT - BALL_SIZE) {
-        state.ball.velocityY *= -0.8
-        state.ball.y = Math.max(BALL_SIZE, Math.min(FIELD_HEIGHT - BALL_SIZE, state.ball.y))
-        sounds.bounce()
-      }
-
-      const goalTop = FIELD_HEIGHT / 2 - GOAL_HEIGHT / 2
-      const goalBottom = FIELD_HEIGHT / 2 + GOAL_HEIGHT / 2
-
-      // Goal check - left
-      if (state.ball.x < 25 && state.ball.y > goalTop && state.ball.y < goalBottom) {
-        state.score.away++
-        state.lastGoalTeam = "away"
-        state.goalCelebration = 150
-        sounds.goal()
-        return
-      }
-
-      // Goal check - right
-      if (state.ball.x > FIELD_WIDTH - 25 && state.ball.y > goalTop && state.ball.y < goalBottom) {
-        state.score.home++
-        state.lastGoalTeam = "home"
-        state.goalCelebration = 150
-        sounds.goal()
-        return
-      }
-
-      // Side walls
-      if (state.ball.x < BALL_SIZE || state.ball.x > FIELD_WIDTH - BALL_SIZE) {
-        state.ball.velocityX *= -0.8
-        state.ball.x = Math.max(BALL_SIZE, Math.min(FIELD_WIDTH - BALL_SIZE, state.ball.x))
-        sounds.bounce()
-      }
+      })
     }
 
-    // Ball pickup
-    state.players.forEach((player) => {
-      if (player.hasBall || state.ball.ownerId) return
-
-      const dx = player.x - state.ball.x
-      const dy = player.y - state.ball.y
-      const dist = Math.sqrt(dx * dx + dy * dy)
-
-      if (dist < PLAYER_SIZE / 2 + BALL_SIZE / 2 + 4) {
-        player.hasBall = true
-        state.ball.ownerId = player.id
-        state.ball.isGrabbed = false
-      }
-    })
-
-    // Slide tackles
-    state.players.forEach((slidingPlayer) => {
-      if (!slidingPlayer.isSliding) return
-
-      state.players.forEach((targetPlayer) => {
-        if (targetPlayer.id === slidingPlayer.id) return
-        if (targetPlayer.team === slidingPlayer.team) return
-        if (!targetPlayer.hasBall) return
-
-        const dx = slidingPlayer.x - targetPlayer.x
-        const dy = slidingPlayer.y - targetPlayer.y
-        const dist = Math.sqrt(dx * dx + dy * dy)
-
-        if (dist < PLAYER_SIZE * 1.8) {
-          targetPlayer.hasBall = false
-          state.ball.ownerId = null
-          state.ball.isGrabbed = false
-          state.ball.velocityX = (Math.random() - 0.5) * 6
-          state.ball.velocityY = (Math.random() - 0.5) * 6
-          sounds.tackle()
-        }
-      })
-    })
-  }, [updateControlledPlayers, updateAI, resetPositions, findNearestTeammate])
+    // Every engine event has a matching sound effect
+    step(state, withAIInputs(state, inputs)).forEach((event) => sounds[event]())
+  }, [updateControlledPlayers, controls])
 
   // Game loop
   useEffect(() => {
@@ -646,49 +317,61 @@ export function LocalGameCanvas({ onExit }: LocalGameCanvasProps) {
 
       timeAccumulatorRef.current += deltaTime
 
-      // Game timer
-      if (gameStateRef.current.gameTime > 0 && gameStateRef.current.goalCelebration === 0) {
-        if (timeAccumulatorRef.current >= 1000) {
-          gameStateRef.current.gameTime--
-          timeAccumulatorRef.current -= 1000
-        }
-      }
-
-      // Fixed timestep updates
-      const FIXED_STEP = 1000 / 60
+      // Fixed timestep updates; the match clock is driven by the tick count
       let steps = 0
-      while (timeAccumulatorRef.current >= FIXED_STEP && steps < 4) {
+      while (timeAccumulatorRef.current >= TICK_MS && steps < MAX_CATCH_UP_TICKS) {
         updateGame()
-        timeAccumulatorRef.current -= FIXED_STEP
+        timeAccumulatorRef.current -= TICK_MS
         steps++
       }
 
+      // Drop the backlog after a long stall (e.g. a background tab) instead of fast-forwarding
+      if (steps === MAX_CATCH_UP_TICKS) {
+        timeAccumulatorRef.current = 0
+      }
+
       // Render
       const state = gameStateRef.current
 
       // Draw field
-      drawField(ctx, FIELD_WIDTH, FIELD_HEIGHT)
-
-      // Draw players (sorted by Y for depth)
-      const sortedPlayers = [...state.players].sort((a, b) => a.y - b.y)
+      const pitch = getPitch(state.rules)
+      drawField(ctx, pitch)
+      drawGround(ctx, pitch.width, pitch.height, state)
+
+      // Draw players (sorted by Y for depth); sent-off players have left the pitch
+      const sortedPlayers = state.players.filter((p) => !p.sentOff).sort((a, b) => a.y - b.y)
+      const now = performance.now()
+      // Mark who each side's switch button would move to
+      const switchTargetIds = TEAMS.map((team) => {
+        const current = state.players.find((player) => player.team === team && player.isHuman)
+        return current && findSwitchTarget(state, state.players, current)?.id
+      })
       sortedPlayers.forEach((player) => {
+        const heldMs = player.isHuman ? heldFor(heldSinceRef.current, controls[player.team], now) : undefined
         const renderState: PlayerRenderState = {
           ...player,
+          diving: divePose(player),
           velocityX: player.velocityX,
           velocityY: player.velocityY,
+          charge: heldMs === undefined ? undefined : chargeLevel(heldMs),
+          lobReady: heldMs !== undefined && heldMs >= LOB_HOLD_MS,
+          stamina: player.isHuman ? player.stamina : undefined,
+          switchTarget: switchTargetIds.includes(player.id),
         }
         drawPlayer(ctx, renderState)
       })
 
       // Draw ball
       if (!state.ball.isGrabbed) {
-        drawBall(ctx, state.ball.x, state.ball.y, BALL_SIZE)
+        drawBall(ctx, state.ball.x, state.ball.y, BALL_SIZE, state.ball.z)
       }
 
+      drawWeather(ctx, pitch.width, pitch.height, state)
+
       // Goal celebration overlay
       if (state.goalCelebration > 0) {
         ctx.fillStyle = "rgba(0, 0, 0, 0.6)"
-        ctx.fillRect(0, 0, FIELD_WIDTH, FIELD_HEIGHT)
+        ctx.fillRect(0, 0, pitch.width, pitch.height)
 
         // Flashing text
         const flash = Math.floor(state.goalCelebration / 10) % 2 === 0
@@ -697,18 +380,20 @@ export function LocalGameCanvas({ onExit }: LocalGameCanvasProps) {
         ctx.textAlign = "center"
         ctx.strokeStyle = "#000"
         ctx.lineWidth = 4
-        ctx.strokeText("GOAL!", FIELD_WIDTH / 2, FIELD_HEIGHT / 2 - 20)
-        ctx.fillText("GOAL!", FIELD_WIDTH / 2, FIELD_HEIGHT / 2 - 20)
+        ctx.strokeText("GOAL!", pitch.width / 2, pitch.height / 2 - 20)
+        ctx.fillText("GOAL!", pitch.width / 2, pitch.height / 2 - 20)
 
         ctx.fillStyle = "#fff"
         ctx.font = "bold 24px monospace"
         ctx.fillText(
           state.lastGoalTeam === "home" ? "HOME TEAM SCORES!" : "AWAY TEAM SCORES!",
-          FIELD_WIDTH / 2,
-          FIELD_HEIGHT / 2 + 30,
+          pitch.width / 2,
+          pitch.height / 2 + 30,
         )
       }
 
+      drawPhaseOverlay(ctx, pitch.width, pitch.height, state)
+
       setDisplayState({ ...state })
       gameLoopRef.current = requestAnimationFrame(gameLoop)
     }
@@ -720,7 +405,7 @@ export function LocalGameCanvas({ onExit }: LocalGameCanvasProps) {
         cancelAnimationFrame(gameLoopRef.current)
       }
     }
-  }, [updateGame])
+  }, [updateGame, controls])
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
@@ -728,15 +413,24 @@ export function LocalGameCanvas({ onExit }: LocalGameCanvasProps) {
     return `${mins}:${secs.toString().padStart(2, "0")}`
   }
 
+  const pitch = getPitch(rules)
+
   const handleExit = () => {
     sounds.back()
     onExit()
   }
 
+  const handleRematch = () => {
+    sounds.select()
+    gameStateRef.current = createInitialState(rules, squads)
+    switchHeldUntilRef.current = { home: 0, away: 0 }
+    setDisplayState(gameStateRef.current)
+  }
+
   return (
     <div className="flex flex-col items-center">
       {/* Header */}
-      <div className="w-full max-w-[800px] flex justify-between items-center mb-4 px-4">
+      <div className="w-full flex justify-between items-center mb-4 px-4" style={{ maxWidth: pitch.width }}>
         <button onClick={handleExit} className="text-[#00ff88] font-mono hover:text-[#00cc6a] transition-colors">
           &larr; EXIT
         </button>
@@ -748,42 +442,105 @@ export function LocalGameCanvas({ onExit }: LocalGameCanvasProps) {
             <div className="text-[#4444ff] font-mono text-4xl font-bold">{displayState.score.away}</div>
           </div>
           <div className="flex items-center justify-center gap-8 text-sm font-mono">
-            <span className="text-[#ff4444]">HOME</span>
-            <span className="text-[#4444ff]">AWAY</span>
+            <span className="text-[#ff4444]">
+              HOME
+              <CardTally players={displayState.players} team="home" />
+            </span>
+            <span className="text-[#888]">{getPeriodLabel(displayState)}</span>
+            <span className="text-[#4444ff]">
+              AWAY
+              <CardTally players={displayState.players} team="away" />
+            </span>
           </div>
         </div>
 
-        <div className="px-3 py-1 rounded font-mono text-sm bg-[#00ff88] text-[#1a1a2e]">LOCAL 2P</div>
+        <div className="px-3 py-1 rounded font-mono text-sm bg-[#00ff88] text-[#1a1a2e]">
+          {cpuTeam ? "1P VS CPU" : "LOCAL 2P"}
+        </div>
       </div>
 
       {/* Game Canvas */}
       <div className="border-8 border-[#252542] shadow-[0_0_40px_rgba(0,255,136,0.2)] rounded">
-        <canvas ref={canvasRef} width={FIELD_WIDTH} height={FIELD_HEIGHT} className="block" />
+        <canvas ref={canvasRef} width={pitch.width} height={pitch.height} className="block" />
       </div>
 
+      {/* Result actions */}
+      {displayState.phase === "finished" && (
+        <div className="mt-4 flex gap-4">
+          <button
+            onClick={handleRematch}
+            className="px-6 py-2 bg-[#00ff88] text-[#1a1a2e] font-mono font-bold border-4 border-[#00cc6a]
+                       hover:bg-[#00cc6a] transition-colors"
+          >
+            PLAY AGAIN
+          </button>
+          <button
+            onClick={handleExit}
+            className="px-6 py-2 bg-[#3a3a5c] text-white font-mono font-bold border-4 border-[#4a4a6c]
+                       hover:border-[#00ff88] transition-colors"
+          >
+            MAIN MENU
+          </button>
+        </div>
+      )}
+
       {/* Controls */}
-      <div className="mt-4 grid grid-cols-2 gap-8 text-xs font-mono max-w-[800px]">
-        <div className="bg-[#252542] p-3 rounded border-2 border-[#ff4444]">
-          <div className="text-[#ff4444] font-bold mb-2">PLAYER 1 (HOME)</div>
-          <div className="text-[#aaa] space-y-1">
-            <div>WASD: Move</div>
-            <div>SPACE: Shoot</div>
-            <div>Q: Pass</div>
-            <div>SHIFT: Slide Tackle</div>
-            <div>E: Grab (GK only)</div>
+      {cpuTeam ? (
+        <div className="mt-4 grid grid-cols-2 gap-8 text-xs font-mono" style={{ maxWidth: pitch.width }}>
+          <div className={`bg-[#252542] p-3 rounded border-2 ${TEAM_BORDERS[otherTeam(cpuTeam)]}`}>
+            <div className={`${TEAM_TEXT[otherTeam(cpuTeam)]} font-bold mb-2`}>
+              PLAYER 1 ({otherTeam(cpuTeam).toUpperCase()}): {getSquad(squads[otherTeam(cpuTeam)]).name}
+            </div>
+            <div className="text-[#aaa] space-y-1">
+              <div>WASD / ARROWS: Move</div>
+              <div>SPACE / ENTER: Shoot (hold to charge)</div>
+              <div>Q / PERIOD (.): Pass (hold to charge)</div>
+              <div>R / L: Through Ball</div>
+              <div>SHIFT / SLASH (/): Slide Tackle / Dive (GK)</div>
+              <div>F / COMMA (,): Sprint (hold)</div>
+              <div>C / M: Switch Player</div>
+              <div>E / 0: Grab (GK only)</div>
+            </div>
+          </div>
+          <div className={`bg-[#252542] p-3 rounded border-2 ${TEAM_BORDERS[cpuTeam]}`}>
+            <div className={`${TEAM_TEXT[cpuTeam]} font-bold mb-2`}>
+              CPU ({cpuTeam.toUpperCase()}): {getSquad(squads[cpuTeam]).name}
+            </div>
+            <div className="text-[#aaa] space-y-1">
+              <div>LEVEL: {DIFFICULTY_LABELS[rules.difficulty]}</div>
+            </div>
           </div>
         </div>
-        <div className="bg-[#252542] p-3 rounded border-2 border-[#4444ff]">
-          <div className="text-[#4444ff] font-bold mb-2">PLAYER 2 (AWAY)</div>
-          <div className="text-[#aaa] space-y-1">
-            <div>ARROWS: Move</div>
-            <div>ENTER: Shoot</div>
-            <div>PERIOD (.): Pass</div>
-            <div>SLASH (/): Slide Tackle</div>
-            <div>0: Grab (GK only)</div>
+      ) : (
+        <div className="mt-4 grid grid-cols-2 gap-8 text-xs font-mono" style={{ maxWidth: pitch.width }}>
+          <div className="bg-[#252542] p-3 rounded border-2 border-[#ff4444]">
+            <div className="text-[#ff4444] font-bold mb-2">PLAYER 1 (HOME): {getSquad(squads.home).name}</div>
+            <div className="text-[#aaa] space-y-1">
+              <div>WASD: Move</div>
+              <div>SPACE: Shoot (hold to charge)</div>
+              <div>Q: Pass (hold to charge)</div>
+              <div>R: Through Ball</div>
+              <div>SHIFT: Slide Tackle / Dive (GK)</div>
+              <div>F: Sprint (hold)</div>
+              <div>C: Switch Player</div>
+              <div>E: Grab (GK only)</div>
+            </div>
+          </div>
+          <div className="bg-[#252542] p-3 rounded border-2 border-[#4444ff]">
+            <div className="text-[#4444ff] font-bold mb-2">PLAYER 2 (AWAY): {getSquad(squads.away).name}</div>
+            <div className="text-[#aaa] space-y-1">
+              <div>ARROWS: Move</div>
+              <div>ENTER: Shoot (hold to charge)</div>
+              <div>PERIOD (.): Pass (hold to charge)</div>
+              <div>L: Through Ball</div>
+              <div>SLASH (/): Slide Tackle / Dive (GK)</div>
+              <div>COMMA (,): Sprint (hold)</div>
+              <div>M: Switch Player</div>
+              <div>0: Grab (GK only)</div>
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   )
 }
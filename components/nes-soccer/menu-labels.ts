@@ -0,0 +1,26 @@
+import type { Difficulty, Tiebreak, Weather } from "@/lib/game-engine"
+
+// Menu labels for how a drawn match is settled
+export const TIEBREAK_LABELS: Record<Tiebreak, string> = {
+  none: "DRAW",
+  extraTime: "EXTRA TIME",
+  goldenGoal: "GOLDEN GOAL",
+  penalties: "PENALTIES",
+}
+
+// Menu labels for the conditions a match is played in
+export const WEATHER_LABELS: Record<Weather, string> = {
+  clear: "CLEAR",
+  rain: "RAIN",
+  snow: "SNOW",
+  wind: "WIND",
+  mud: "MUD",
+}
+
+// Menu labels for how well the computer plays
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: "EASY",
+  normal: "NORMAL",
+  hard: "HARD",
+  legend: "LEGEND",
+}
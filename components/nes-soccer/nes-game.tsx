@@ -5,15 +5,33 @@ import { GameLobby } from "./game-lobby"
 import { GameCanvas } from "./game-canvas"
 import { LocalGameCanvas } from "./local-game-canvas"
 import { GameProvider } from "./game-context"
+import { DIFFICULTY_LABELS, TIEBREAK_LABELS, WEATHER_LABELS } from "./menu-labels"
+import {
+  DEFAULT_RULES,
+  DIFFICULTIES,
+  PITCH_SIZES,
+  TIEBREAKS,
+  WEATHERS,
+  otherTeam,
+  type RoomRules,
+  type Team,
+} from "@/lib/game-engine"
+import { DEFAULT_SQUADS, SQUADS, getSquad } from "@/lib/squads"
+import { AUTO_SWITCHES, type AutoSwitch } from "@/lib/player-control"
 import { sounds } from "@/lib/sounds"
 
-export type GameScreen = "menu" | "lobby" | "game" | "local"
+export type GameScreen = "menu" | "lobby" | "game" | "local" | "cpu"
 
 export function NESGame() {
   const [screen, setScreen] = useState<GameScreen>("menu")
   const [roomId, setRoomId] = useState<string | null>(null)
   const [playerTeam, setPlayerTeam] = useState<"home" | "away">("home")
   const [playerName, setPlayerName] = useState("Player")
+  const [lobbyError, setLobbyError] = useState<string | null>(null) // why the last online join failed
+  const [localRules, setLocalRules] = useState<RoomRules>(DEFAULT_RULES)
+  const [localSquads, setLocalSquads] = useState<Record<Team, string>>(DEFAULT_SQUADS)
+  const [autoSwitch, setAutoSwitch] = useState<AutoSwitch>("always")
+  const [soloTeam, setSoloTeam] = useState<Team>("home") // side a lone player takes against the computer
 
   // Initialize sounds on first interaction
   useEffect(() => {
@@ -34,9 +52,16 @@ export function NESGame() {
     setRoomId(room)
     setPlayerTeam(team)
     setPlayerName(name)
+    setLobbyError(null)
     setScreen("game")
   }
 
+  const handleJoinRejected = (message: string) => {
+    setLobbyError(message)
+    setRoomId(null)
+    setScreen("lobby")
+  }
+
   const handleBackToMenu = () => {
     setScreen("menu")
     setRoomId(null)
@@ -52,21 +77,156 @@ export function NESGame() {
     setScreen("local")
   }
 
+  const handlePlayCpu = () => {
+    sounds.select()
+    setScreen("cpu")
+  }
+
+  const handleToggleSoloTeam = () => {
+    sounds.select()
+    setSoloTeam(otherTeam(soloTeam))
+  }
+
+  const handleCycleTiebreak = () => {
+    sounds.select()
+    const next = TIEBREAKS[(TIEBREAKS.indexOf(localRules.tiebreak) + 1) % TIEBREAKS.length]
+    setLocalRules({ ...localRules, tiebreak: next })
+  }
+
+  const handleCyclePitch = () => {
+    sounds.select()
+    const next = PITCH_SIZES[(PITCH_SIZES.indexOf(localRules.pitch) + 1) % PITCH_SIZES.length]
+    setLocalRules({ ...localRules, pitch: next })
+  }
+
+  const handleCycleWeather = () => {
+    sounds.select()
+    const next = WEATHERS[(WEATHERS.indexOf(localRules.weather) + 1) % WEATHERS.length]
+    setLocalRules({ ...localRules, weather: next })
+  }
+
+  const handleCycleDifficulty = () => {
+    sounds.select()
+    const next = DIFFICULTIES[(DIFFICULTIES.indexOf(localRules.difficulty) + 1) % DIFFICULTIES.length]
+    setLocalRules({ ...localRules, difficulty: next })
+  }
+
+  const handleToggleClassicRules = () => {
+    sounds.select()
+    setLocalRules({ ...localRules, classicRules: !localRules.classicRules })
+  }
+
+  const handleToggleOffside = () => {
+    sounds.select()
+    setLocalRules({ ...localRules, offside: !localRules.offside })
+  }
+
+  const handleCycleSquad = (team: Team) => {
+    sounds.select()
+    const index = SQUADS.findIndex((squad) => squad.id === localSquads[team])
+    setLocalSquads({ ...localSquads, [team]: SQUADS[(index + 1) % SQUADS.length].id })
+  }
+
+  const handleCycleAutoSwitch = () => {
+    sounds.select()
+    setAutoSwitch(AUTO_SWITCHES[(AUTO_SWITCHES.indexOf(autoSwitch) + 1) % AUTO_SWITCHES.length])
+  }
+
   return (
     <GameProvider>
       <div className="min-h-screen bg-[#1a1a2e] flex items-center justify-center p-4">
-        {screen === "menu" && <MainMenu onPlayOnline={handlePlayOnline} onPlayLocal={handlePlayLocal} />}
-        {screen === "lobby" && <GameLobby onJoinGame={handleJoinGame} onBack={handleBackToMenu} />}
+        {screen === "menu" && (
+          <MainMenu
+            onPlayOnline={handlePlayOnline}
+            onPlayLocal={handlePlayLocal}
+            onPlayCpu={handlePlayCpu}
+            soloTeam={soloTeam}
+            onToggleSoloTeam={handleToggleSoloTeam}
+            localRules={localRules}
+            onCycleTiebreak={handleCycleTiebreak}
+            onCyclePitch={handleCyclePitch}
+            onCycleWeather={handleCycleWeather}
+            onCycleDifficulty={handleCycleDifficulty}
+            onToggleClassicRules={handleToggleClassicRules}
+            onToggleOffside={handleToggleOffside}
+            localSquads={localSquads}
+            onCycleSquad={handleCycleSquad}
+            autoSwitch={autoSwitch}
+            onCycleAutoSwitch={handleCycleAutoSwitch}
+          />
+        )}
+        {screen === "lobby" && (
+          <GameLobby onJoinGame={handleJoinGame} onBack={handleBackToMenu} initialError={lobbyError} />
+        )}
         {screen === "game" && roomId && (
-          <GameCanvas roomId={roomId} playerTeam={playerTeam} playerName={playerName} onExit={handleBackToMenu} />
+          <GameCanvas
+            roomId={roomId}
+            playerTeam={playerTeam}
+            playerName={playerName}
+            onExit={handleBackToMenu}
+            onJoinRejected={handleJoinRejected}
+          />
+        )}
+        {screen === "local" && (
+          <LocalGameCanvas
+            rules={localRules}
+            squads={localSquads}
+            autoSwitch={autoSwitch}
+            cpuTeam={null}
+            onExit={handleBackToMenu}
+          />
+        )}
+        {screen === "cpu" && (
+          <LocalGameCanvas
+            rules={localRules}
+            squads={localSquads}
+            autoSwitch={autoSwitch}
+            cpuTeam={otherTeam(soloTeam)}
+            onExit={handleBackToMenu}
+          />
         )}
-        {screen === "local" && <LocalGameCanvas onExit={handleBackToMenu} />}
       </div>
     </GameProvider>
   )
 }
 
-function MainMenu({ onPlayOnline, onPlayLocal }: { onPlayOnline: () => void; onPlayLocal: () => void }) {
+interface MainMenuProps {
+  onPlayOnline: () => void
+  onPlayLocal: () => void
+  onPlayCpu: () => void
+  soloTeam: Team
+  onToggleSoloTeam: () => void
+  localRules: RoomRules
+  onCycleTiebreak: () => void
+  onCyclePitch: () => void
+  onCycleWeather: () => void
+  onCycleDifficulty: () => void
+  onToggleClassicRules: () => void
+  onToggleOffside: () => void
+  localSquads: Record<Team, string>
+  onCycleSquad: (team: Team) => void
+  autoSwitch: AutoSwitch
+  onCycleAutoSwitch: () => void
+}
+
+function MainMenu({
+  onPlayOnline,
+  onPlayLocal,
+  onPlayCpu,
+  soloTeam,
+  onToggleSoloTeam,
+  localRules,
+  onCycleTiebreak,
+  onCyclePitch,
+  onCycleWeather,
+  onCycleDifficulty,
+  onToggleClassicRules,
+  onToggleOffside,
+  localSquads,
+  onCycleSquad,
+  autoSwitch,
+  onCycleAutoSwitch,
+}: MainMenuProps) {
   return (
     <div className="text-center">
       {/* Title with glow effect */}
@@ -98,6 +258,97 @@ function MainMenu({ onPlayOnline, onPlayLocal }: { onPlayOnline: () => void; onP
         >
           LOCAL 2P
         </button>
+
+        <button
+          onClick={onPlayCpu}
+          className="w-64 py-4 bg-[#ffdd44] text-[#1a1a2e] font-mono font-bold text-xl 
+                     hover:bg-[#ccaa33] transition-all border-4 border-[#ccaa33]
+                     shadow-[4px_4px_0px_#887722] active:shadow-none active:translate-x-1 active:translate-y-1
+                     hover:scale-105"
+        >
+          1P VS CPU
+        </button>
+
+        <button
+          onClick={onCycleTiebreak}
+          className="block mx-auto w-64 py-2 bg-[#252542] text-[#888] font-mono text-sm border-4 border-[#3a3a5c]
+                     hover:text-white hover:border-[#ff8844] transition-all"
+        >
+          IF DRAWN: <span className="text-[#ff8844]">{TIEBREAK_LABELS[localRules.tiebreak]}</span>
+        </button>
+
+        <button
+          onClick={onCyclePitch}
+          className="block mx-auto w-64 py-2 bg-[#252542] text-[#888] font-mono text-sm border-4 border-[#3a3a5c]
+                     hover:text-white hover:border-[#ff8844] transition-all"
+        >
+          PITCH: <span className="text-[#ff8844]">{localRules.pitch.toUpperCase()}</span>
+        </button>
+
+        <button
+          onClick={onCycleWeather}
+          className="block mx-auto w-64 py-2 bg-[#252542] text-[#888] font-mono text-sm border-4 border-[#3a3a5c]
+                     hover:text-white hover:border-[#ff8844] transition-all"
+        >
+          WEATHER: <span className="text-[#ff8844]">{WEATHER_LABELS[localRules.weather]}</span>
+        </button>
+
+        <button
+          onClick={onCycleDifficulty}
+          className="block mx-auto w-64 py-2 bg-[#252542] text-[#888] font-mono text-sm border-4 border-[#3a3a5c]
+                     hover:text-white hover:border-[#ff8844] transition-all"
+        >
+          CPU: <span className="text-[#ff8844]">{DIFFICULTY_LABELS[localRules.difficulty]}</span>
+        </button>
+
+        <button
+          onClick={onToggleSoloTeam}
+          className="block mx-auto w-64 py-2 bg-[#252542] text-[#888] font-mono text-sm border-4 border-[#3a3a5c]
+                     hover:text-white hover:border-[#ff8844] transition-all"
+        >
+          1P SIDE:{" "}
+          <span className={soloTeam === "home" ? "text-[#ff6b6b]" : "text-[#6b9fff]"}>{soloTeam.toUpperCase()}</span>
+        </button>
+
+        <button
+          onClick={onToggleClassicRules}
+          className="block mx-auto w-64 py-2 bg-[#252542] text-[#888] font-mono text-sm border-4 border-[#3a3a5c]
+                     hover:text-white hover:border-[#ff8844] transition-all"
+        >
+          OUT OF PLAY: <span className="text-[#ff8844]">{localRules.classicRules ? "CLASSIC" : "ARCADE"}</span>
+        </button>
+
+        <button
+          onClick={onToggleOffside}
+          className="block mx-auto w-64 py-2 bg-[#252542] text-[#888] font-mono text-sm border-4 border-[#3a3a5c]
+                     hover:text-white hover:border-[#ff8844] transition-all"
+        >
+          OFFSIDE: <span className="text-[#ff8844]">{localRules.offside ? "ON" : "OFF"}</span>
+        </button>
+
+        <button
+          onClick={() => onCycleSquad("home")}
+          className="block mx-auto w-64 py-2 bg-[#252542] text-[#888] font-mono text-sm border-4 border-[#3a3a5c]
+                     hover:text-white hover:border-[#ff8844] transition-all"
+        >
+          HOME: <span className="text-[#ff6b6b]">{getSquad(localSquads.home).name}</span>
+        </button>
+
+        <button
+          onClick={() => onCycleSquad("away")}
+          className="block mx-auto w-64 py-2 bg-[#252542] text-[#888] font-mono text-sm border-4 border-[#3a3a5c]
+                     hover:text-white hover:border-[#ff8844] transition-all"
+        >
+          AWAY: <span className="text-[#6b9fff]">{getSquad(localSquads.away).name}</span>
+        </button>
+
+        <button
+          onClick={onCycleAutoSwitch}
+          className="block mx-auto w-64 py-2 bg-[#252542] text-[#888] font-mono text-sm border-4 border-[#3a3a5c]
+                     hover:text-white hover:border-[#ff8844] transition-all"
+        >
+          AUTO SWITCH: <span className="text-[#ff8844]">{autoSwitch === "always" ? "ALWAYS" : "DEFENCE"}</span>
+        </button>
       </div>
 
       {/* Controls reference */}
@@ -112,17 +363,26 @@ function MainMenu({ onPlayOnline, onPlayLocal }: { onPlayOnline: () => void; onP
                 <span className="text-[#aaa]">WASD</span> - Move
               </p>
               <p>
-                <span className="text-[#aaa]">SPACE</span> - Shoot
+                <span className="text-[#aaa]">SPACE</span> - Shoot (hold to charge)
+              </p>
+              <p>
+                <span className="text-[#aaa]">Q</span> - Pass (hold to charge)
               </p>
               <p>
-                <span className="text-[#aaa]">Q</span> - Pass
+                <span className="text-[#aaa]">R</span> - Through ball
               </p>
               <p>
-                <span className="text-[#aaa]">SHIFT</span> - Slide
+                <span className="text-[#aaa]">SHIFT</span> - Slide / Dive (GK)
               </p>
               <p>
                 <span className="text-[#aaa]">E</span> - Grab (GK)
               </p>
+              <p>
+                <span className="text-[#aaa]">F</span> - Sprint
+              </p>
+              <p>
+                <span className="text-[#aaa]">C</span> - Switch player
+              </p>
             </div>
           </div>
 
@@ -133,20 +393,33 @@ function MainMenu({ onPlayOnline, onPlayLocal }: { onPlayOnline: () => void; onP
                 <span className="text-[#aaa]">ARROWS</span> - Move
               </p>
               <p>
-                <span className="text-[#aaa]">ENTER</span> - Shoot
+                <span className="text-[#aaa]">ENTER</span> - Shoot (hold to charge)
+              </p>
+              <p>
+                <span className="text-[#aaa]">.</span> - Pass (hold to charge)
               </p>
               <p>
-                <span className="text-[#aaa]">.</span> - Pass
+                <span className="text-[#aaa]">L</span> - Through ball
               </p>
               <p>
-                <span className="text-[#aaa]">/</span> - Slide
+                <span className="text-[#aaa]">/</span> - Slide / Dive (GK)
               </p>
               <p>
                 <span className="text-[#aaa]">0</span> - Grab (GK)
               </p>
+              <p>
+                <span className="text-[#aaa]">,</span> - Sprint
+              </p>
+              <p>
+                <span className="text-[#aaa]">M</span> - Switch player
+              </p>
             </div>
           </div>
         </div>
+
+        <p className="mt-3 text-[#888] font-mono text-xs">
+          Hold past a full meter to lob. Steer right after a kick to curve it. Sprinting tires players out.
+        </p>
       </div>
 
       {/* Version */}
@@ -0,0 +1,750 @@
+// Computer-controlled players. The AI reads the match state and answers with the same
+// PlayerInput a human would send, so it goes through `step` like everyone else. Any
+// randomness comes from the match RNG, which keeps AI matches replayable.
+
+import {
+  AFTERTOUCH_TICKS,
+  DIFFICULTY_SETTINGS,
+  DIVE_FLIGHT,
+  EMPTY_INPUT,
+  GOAL_LINE,
+  GRAB_DURATION,
+  GRAB_RANGE,
+  PASS_ARRIVAL_CHARGED,
+  PASS_ARRIVAL_SPEED,
+  PASS_POWER,
+  PENALTY_AIM_FRAMES,
+  PLAYER_SPEED,
+  SET_PIECE_TIME,
+  SHOOT_POWER,
+  THROW_POWER,
+  TICK_RATE,
+  TOUCHLINE,
+  attackDirection,
+  attributeScale,
+  chooseThroughBall,
+  choosePassTarget,
+  countInterceptors,
+  findNearestTeammate,
+  getFormationSlot,
+  getPitch,
+  inPenaltyArea,
+  keeperReach,
+  random,
+  type FormationSlot,
+  type GameState,
+  type PassTarget,
+  type Player,
+  type PlayerInput,
+  type Role,
+  type Team,
+} from "@/lib/game-engine"
+
+const BALL_MARGIN = 20
+const SET_PIECE_AIM_TICKS = 30
+const AI_PASS_CHARGE = 0.5
+const KEEPER_HOLD_TICKS = TICK_RATE
+const KEEPER_THROW_RANGE = 200
+const KEEPER_THROW_SPACE = 60 // room a teammate needs around them to be thrown to
+// The AI only sprints when it matters, and stops while it still has something left
+const AI_SPRINT_STAMINA = 0.4
+const AI_SPRINT_CHASE_RANGE = 200
+const AI_SPRINT_SPACE = 100
+
+// Team shape. Each slot slides up and down with the ball by its role's share of the ball's
+// travel, and further up while the team has the ball.
+const SHAPE_FOLLOW: Record<Role, number> = { defender: 0.4, midfielder: 0.5, forward: 0.5 }
+const SHAPE_PUSH: Record<Role, number> = { defender: 0.1, midfielder: 0.2, forward: 0.3 }
+const SHAPE_SHIFT = 0.35 // how far the shape leans across towards the ball
+const SHAPE_MIN = 0.08 // deepest and highest a shape position goes, as shares of the length
+const SHAPE_MAX = 0.92
+const OFFSIDE_MARGIN = 10
+
+// Support play
+const SPACE_SEARCH = 60 // spacing of the spots tried around a shape position
+const SPACE_RANGE = 100 // an opponent this far away or more leaves a spot fully open
+const SUPPORT_THREAT_WEIGHT = 0.5
+const SUPPORT_BLOCKED_COST = 0.3
+const SUPPORT_MIN_DISTANCE = 60 // closer than this to the ball is crowding the carrier
+const SUPPORT_STAY_RANGE = 400 // moving this far to a spot costs as much as a fully open one is worth
+const SUPPORT_SPRINT_DISTANCE = 150 // sprint on runs that go this far upfield
+
+// Defending
+const CHASE_LOOKAHEAD = 10 // ticks ahead of a moving ball the chaser heads for
+const STRUCK_BALL_SPEED = 3 // a ball moving faster than this is still on its way from the kicker
+const MARK_ORDER: Role[] = ["defender", "midfielder"]
+const MARK_RANGE = 250
+const MARK_GOAL_SIDE = 30
+const MARK_BALL_LEAN = 0.15
+const PRESS_GOAL_SIDE = 15 // at normal pressing; less eager sides stand off further
+const PRESS_SPRINT_RANGE = 100 // at normal pressing, sprint at a carrier this close
+const PRESS_CLOSE = 30 // this close, go for the ball itself
+const AI_SLIDE_RANGE = 40
+const AI_SLIDE_CHANCE = 0.05 // per tick once in range, so tackles are not instant
+
+// On the ball. Options are compared on the threat scale: 0 at the team's own goal line,
+// 1 at the opponents'.
+const DRIBBLE_LOOKAHEAD = 60
+const DRIBBLE_TURNS = [0, 0.5, -0.5, 1, -1, 1.5, -1.5]
+const PRESSURE_RANGE = 80 // opponents closer than this to where the ball is going make it riskier
+const PRESSURE_WEIGHT = 0.4
+const PASS_SPACE_WEIGHT = 0.15
+const PASS_RISK_COST = 0.3
+const PASS_COST = 0.12 // keeping the ball wins when a pass gains little
+const LOB_COST = 0.05
+const SHOT_RANGE = 300 // furthest an average shooter tries from
+const SHOT_VALUE = 0.6 // plus the shot's quality, from 0 to 1
+const MIN_SHOT_QUALITY = 0.15
+const JUDGEMENT_TICKS = TICK_RATE / 2 // how long a misjudgement of an option sticks
+
+// Keepers
+const KEEPER_LINE = 25 // how far out from the goal line a keeper stands
+const KEEPER_REACTION_TICKS = 3 // before a keeper moves for a shot, on top of the difficulty's
+const KEEPER_SAVE_TICKS = 45 // a shot further off than this is watched rather than gone for
+const KEEPER_SAVE_MARGIN = 20 // shots this far wide of a post are still covered
+const KEEPER_NARROW = 0.25 // share of the way out to a carrier a keeper comes to narrow the angle
+const KEEPER_NARROW_MAX = 60
+const KEEPER_COVER_RANGE = 120 // a defender this close to a carrier, goal-side, means they are not through
+const KEEPER_RUSH_RANGE = 150
+const KEEPER_SMOTHER_RANGE = 35 // close enough to dive at a carrier's feet
+const KEEPER_CLAIM_RANGE = 80 // loose balls in the box this close are come for
+const PENALTY_DIVE_RANGE = 20 // a shootout keeper goes this late, or the dive reaches the ball whichever way it goes
+
+// Shootout behaviour: the kicker picks a spot and strikes after a beat, the keeper picks a
+// way to go and dives as the ball is struck.
+function updatePenaltyAI(state: GameState, player: Player): PlayerInput {
+  const pitch = getPitch(state.rules)
+  const shootout = state.shootout!
+  const ball = state.ball
+  const input: PlayerInput = { ...EMPTY_INPUT }
+
+  if (player.id === shootout.kickerId && player.hasBall && shootout.stage === "aiming") {
+    // Spot is fixed per kick (left, middle or right) so the aim does not jitter
+    const kick = shootout.kicks.home.length + shootout.kicks.away.length
+    const spot = (((state.seed ^ Math.imul(kick + 1, 2654435761)) >>> 0) % 3) - 1
+    const targetY = pitch.height / 2 + spot * (pitch.goalWidth / 2 - BALL_MARGIN)
+
+    // Aim from the ball, which sits on the spot rather than at the kicker's feet
+    const dx = pitch.width - GOAL_LINE - ball.x
+    const dy = targetY - ball.y
+    const dist = Math.sqrt(dx * dx + dy * dy)
+    input.dx = dx / dist
+    input.dy = dy / dist
+    input.shoot = state.phaseTimer < PENALTY_AIM_FRAMES - TICK_RATE
+    input.charge = 1
+  } else if (player.id === shootout.keeperId && shootout.stage !== "ready") {
+    // Too close to read, so the keeper guesses a side (or stands tall) for each kick and
+    // dives that way as the ball arrives
+    const kick = shootout.kicks.home.length + shootout.kicks.away.length
+    const guess = (((state.seed ^ Math.imul(kick + 1, 40503)) >>> 0) % 3) - 1
+    if (shootout.stage === "taken" && guess !== 0 && player.diveTimer === 0 && player.x - ball.x < PENALTY_DIVE_RANGE) {
+      return { ...EMPTY_INPUT, dy: guess, slide: true }
+    }
+    const dy = pitch.height / 2 - player.y
+    if (Math.abs(dy) > 4) input.dy = Math.sign(dy)
+  }
+
+  return input
+}
+
+// Set-piece takers turn towards a target, take a moment, then play it: goal kicks go long
+// upfield, penalties and free kicks in range are shot at goal, and everything else is
+// passed to the teammate best placed to attack.
+function updateSetPieceAI(state: GameState, player: Player): PlayerInput {
+  const pitch = getPitch(state.rules)
+  const setPiece = state.setPiece!
+  const input: PlayerInput = { ...EMPTY_INPUT }
+  const dir = attackDirection(state, player.team)
+  const goalX = dir > 0 ? pitch.width : 0
+
+  let targetX = player.x + dir * 300
+  let targetY = pitch.height / 2
+  let shoot = setPiece.type === "goalKick"
+
+  if (setPiece.type === "penalty") {
+    // Same idea as a shootout kick: a fixed corner or the middle for this penalty
+    const kick = state.half * 31 + state.score.home * 7 + state.score.away
+    const spot = (((state.seed ^ Math.imul(kick + 1, 2654435761)) >>> 0) % 3) - 1
+    targetX = goalX - dir * GOAL_LINE
+    targetY = pitch.height / 2 + spot * (pitch.goalWidth / 2 - BALL_MARGIN)
+    shoot = true
+  } else if (setPiece.type === "freeKick" && Math.abs(goalX - player.x) < 250) {
+    targetX = goalX
+    shoot = true
+  } else if (setPiece.type !== "goalKick") {
+    let bestDist = Number.POSITIVE_INFINITY
+    state.players.forEach((mate) => {
+      if (mate.team !== player.team || mate.id === player.id || mate.isGoalkeeper) return
+      const dist = Math.abs(mate.x - goalX) + Math.abs(mate.y - pitch.height / 2)
+      if (dist < bestDist) {
+        bestDist = dist
+        targetX = mate.x
+        targetY = mate.y
+      }
+    })
+  }
+
+  const dx = targetX - state.ball.x
+  const dy = targetY - state.ball.y
+  const dist = Math.sqrt(dx * dx + dy * dy) || 1
+  input.dx = dx / dist
+  input.dy = dy / dist
+
+  if (SET_PIECE_TIME - setPiece.timer > SET_PIECE_AIM_TICKS) {
+    if (shoot && setPiece.type !== "goalKick") Object.assign(input, missAim(state, input.dx, input.dy))
+    if (shoot) input.shoot = true
+    else input.pass = true
+    input.charge = shoot ? 1 : AI_PASS_CHARGE
+    // Corners and goal kicks go in the air
+    input.lob = setPiece.type === "corner" || setPiece.type === "goalKick"
+  }
+  return input
+}
+
+// The computer's reading of the ball: a moving ball is seen where it was a few ticks ago,
+// more on the easier levels
+function readBall(state: GameState): { x: number; y: number } {
+  const { ball } = state
+  const lag = DIFFICULTY_SETTINGS[state.rules.difficulty].reactionTicks
+  return { x: ball.x - ball.velocityX * lag, y: ball.y - ball.velocityY * lag }
+}
+
+// How far off a player's judgement of their `option`th choice on the ball is, from -1 to 1.
+// It holds for JUDGEMENT_TICKS rather than changing every tick, so a weak side settles on
+// a bad choice instead of flickering between them.
+function misjudgement(state: GameState, player: Player, option: number): number {
+  const span = Math.floor(state.tick / JUDGEMENT_TICKS)
+  const key = Math.imul(span + 1, 2654435761) ^ Math.imul(state.players.indexOf(player) * 64 + option + 1, 40503)
+  return (Math.imul(state.seed ^ key, 2654435761) >>> 0) / 2 ** 31 - 1
+}
+
+// Turns a shot's aim by a random amount up to the difficulty's spread
+function missAim(state: GameState, dx: number, dy: number): { dx: number; dy: number } {
+  const angle = (random(state) * 2 - 1) * DIFFICULTY_SETTINGS[state.rules.difficulty].shotSpread
+  return { dx: dx * Math.cos(angle) - dy * Math.sin(angle), dy: dx * Math.sin(angle) + dy * Math.cos(angle) }
+}
+
+// How dangerous the ball is at (x, y) for `team`: 0 on its own goal line up to 1 on the
+// opponents', a little less out wide
+function threat(state: GameState, team: Team, x: number, y: number): number {
+  const pitch = getPitch(state.rules)
+  const progress = attackDirection(state, team) > 0 ? x / pitch.width : 1 - x / pitch.width
+  const central = 1 - Math.abs(y - pitch.height / 2) / (pitch.height / 2)
+  return progress * (0.8 + 0.2 * central)
+}
+
+function nearestOpponentDist(state: GameState, team: Team, x: number, y: number): number {
+  let nearest = Number.POSITIVE_INFINITY
+  state.players.forEach((other) => {
+    if (other.team !== team && !other.sentOff) nearest = Math.min(nearest, Math.hypot(other.x - x, other.y - y))
+  })
+  return nearest
+}
+
+// Pulls an attacker's target x back level with the second-last opponent (or the ball, or
+// halfway, whichever is further upfield) when offside is on
+function keepOnside(state: GameState, team: Team, x: number): number {
+  if (!state.rules.offside) return x
+  const pitch = getPitch(state.rules)
+  const dir = attackDirection(state, team)
+  const depths = state.players
+    .filter((other) => other.team !== team && !other.sentOff)
+    .map((other) => other.x * dir)
+    .sort((a, b) => b - a)
+  const limit = Math.max(depths[1] ?? Number.NEGATIVE_INFINITY, state.ball.x * dir, (pitch.width / 2) * dir)
+  return Math.min(x * dir, limit - OFFSIDE_MARGIN) * dir
+}
+
+function clampToPitch(state: GameState, x: number, y: number): { x: number; y: number } {
+  const pitch = getPitch(state.rules)
+  return {
+    x: Math.max(GOAL_LINE + BALL_MARGIN, Math.min(pitch.width - GOAL_LINE - BALL_MARGIN, x)),
+    y: Math.max(TOUCHLINE + BALL_MARGIN, Math.min(pitch.height - TOUCHLINE - BALL_MARGIN, y)),
+  }
+}
+
+function moveTo(
+  state: GameState,
+  player: Player,
+  x: number,
+  y: number,
+  sprint: boolean,
+  input = { ...EMPTY_INPUT },
+): PlayerInput {
+  const dx = x - player.x
+  const dy = y - player.y
+  const dist = Math.sqrt(dx * dx + dy * dy)
+  const speed = DIFFICULTY_SETTINGS[state.rules.difficulty].speed / PLAYER_SPEED
+
+  if (dist > 5) {
+    input.dx = (dx / dist) * speed
+    input.dy = (dy / dist) * speed
+    input.sprint = sprint && player.stamina > AI_SPRINT_STAMINA
+  }
+  return input
+}
+
+// Where a player stands in the team's shape: their slot, slid up or back with the ball,
+// pushed on while the team has it and leaning across towards the ball's side
+function shapePosition(state: GameState, slot: FormationSlot, team: Team, attacking: boolean) {
+  const pitch = getPitch(state.rules)
+  const dir = attackDirection(state, team)
+  const ballProgress = dir > 0 ? state.ball.x / pitch.width : 1 - state.ball.x / pitch.width
+  const push = attacking ? SHAPE_PUSH[slot.role] : 0
+  const progress = Math.max(
+    SHAPE_MIN,
+    Math.min(SHAPE_MAX, slot.x + (ballProgress - 0.5) * SHAPE_FOLLOW[slot.role] + push),
+  )
+  const baseY = slot.y * pitch.height
+  return {
+    x: dir > 0 ? progress * pitch.width : (1 - progress) * pitch.width,
+    y: baseY + (state.ball.y - baseY) * SHAPE_SHIFT,
+  }
+}
+
+// Off the ball while the team has it: the most open spot around the shape position that
+// the ball can be passed into, staying onside. Forwards look further upfield, which has
+// them running in behind.
+function supportPosition(state: GameState, player: Player, slot: FormationSlot) {
+  const dir = attackDirection(state, player.team)
+  const home = shapePosition(state, slot, player.team, true)
+  const ahead = slot.role === "forward" ? 1 : 0
+  let best = home
+  let bestScore = Number.NEGATIVE_INFINITY
+
+  for (let i = ahead - 1; i <= ahead + 1; i++) {
+    for (let j = -1; j <= 1; j++) {
+      const x = keepOnside(state, player.team, home.x + i * SPACE_SEARCH * dir)
+      const spot = clampToPitch(state, x, home.y + j * SPACE_SEARCH)
+      const dist = Math.hypot(spot.x - state.ball.x, spot.y - state.ball.y)
+      const space = Math.min(1, nearestOpponentDist(state, player.team, spot.x, spot.y) / SPACE_RANGE)
+      const blocked = countInterceptors(state, player.team, spot.x, spot.y, dist / PASS_POWER, false)
+      const crowding = dist < SUPPORT_MIN_DISTANCE ? 1 : 0
+      const score =
+        space +
+        threat(state, player.team, spot.x, spot.y) * SUPPORT_THREAT_WEIGHT -
+        (blocked + crowding) * SUPPORT_BLOCKED_COST -
+        Math.hypot(spot.x - player.x, spot.y - player.y) / SUPPORT_STAY_RANGE
+      if (score > bestScore) {
+        bestScore = score
+        best = spot
+      }
+    }
+  }
+  return best
+}
+
+// The outfield player a team sends after the ball: whoever is closest to where it is
+// going, other than a player who has just played it on
+function findChaser(state: GameState, team: Team): Player | null {
+  const { ball } = state
+  const seen = readBall(state)
+  const x = seen.x + ball.velocityX * CHASE_LOOKAHEAD
+  const y = seen.y + ball.velocityY * CHASE_LOOKAHEAD
+  const struck = Math.hypot(ball.velocityX, ball.velocityY) > STRUCK_BALL_SPEED
+  let chaser: Player | null = null
+  let minDist = Number.POSITIVE_INFINITY
+
+  state.players.forEach((player) => {
+    if (player.team !== team || player.sentOff || player.isGoalkeeper) return
+    if (struck && player.id === ball.kickerId) return
+    const dist = Math.hypot(player.x - x, player.y - y)
+    if (dist < minDist) {
+      minDist = dist
+      chaser = player
+    }
+  })
+  return chaser
+}
+
+// The opponent `player` picks up while defending. Defenders choose first, then
+// midfielders, each taking the free opponent nearest their shape position within
+// MARK_RANGE; forwards and the chaser do not mark.
+function findMark(state: GameState, player: Player, chaserId: string | null): Player | null {
+  const markers = state.players
+    .filter((p) => p.team === player.team && !p.sentOff && !p.isGoalkeeper && p.id !== chaserId)
+    .map((p) => ({ player: p, slot: getFormationSlot(state, p)! }))
+    .filter(({ slot }) => slot.role !== "forward")
+    .sort((a, b) => MARK_ORDER.indexOf(a.slot.role) - MARK_ORDER.indexOf(b.slot.role))
+  const taken = new Set<string>()
+
+  for (const marker of markers) {
+    const home = shapePosition(state, marker.slot, player.team, false)
+    let mark: Player | null = null
+    let minDist = MARK_RANGE
+    for (const other of state.players) {
+      if (other.team === player.team || other.sentOff || other.isGoalkeeper || taken.has(other.id)) continue
+      if (other.id === state.ball.ownerId) continue
+      const dist = Math.hypot(other.x - home.x, other.y - home.y)
+      if (dist < minDist) {
+        minDist = dist
+        mark = other
+      }
+    }
+    if (marker.player.id === player.id) return mark
+    if (mark) taken.add(mark.id)
+  }
+  return null
+}
+
+// A point `distance` from (x, y) towards the middle of the goal `team` defends
+function goalSide(state: GameState, team: Team, x: number, y: number, distance: number) {
+  const pitch = getPitch(state.rules)
+  const goalX = attackDirection(state, team) > 0 ? GOAL_LINE : pitch.width - GOAL_LINE
+  const dx = goalX - x
+  const dy = pitch.height / 2 - y
+  const dist = Math.hypot(dx, dy) || 1
+  return { x: x + (dx / dist) * distance, y: y + (dy / dist) * distance }
+}
+
+// Closes down the carrier from the goal side, and slides in from the front once close
+// enough to win the ball cleanly. Never in their own box, where a miss is a penalty. The
+// difficulty's pressing sets how tight they stand, how soon they sprint and how often
+// they go to ground.
+function pressCarrier(state: GameState, player: Player, carrier: Player): PlayerInput {
+  const { ball } = state
+  const { pressing } = DIFFICULTY_SETTINGS[state.rules.difficulty]
+  const dir = attackDirection(state, player.team)
+  const beaten = (carrier.x - player.x) * dir < 0
+  const carrierDist = Math.hypot(carrier.x - player.x, carrier.y - player.y)
+  const target =
+    carrierDist < PRESS_CLOSE * pressing
+      ? ball
+      : goalSide(state, player.team, carrier.x, carrier.y, PRESS_GOAL_SIDE / pressing)
+  const input = moveTo(state, player, target.x, target.y, beaten || carrierDist < PRESS_SPRINT_RANGE * pressing)
+
+  const ballDist = Math.hypot(ball.x - player.x, ball.y - player.y)
+  const facingBall = (ball.x - player.x) * input.dx + (ball.y - player.y) * input.dy > 0
+  if (
+    state.rules.slideTackles &&
+    !beaten &&
+    facingBall &&
+    ballDist < AI_SLIDE_RANGE &&
+    ballDist < carrierDist &&
+    !inPenaltyArea(state, player.team, player.x, player.y) &&
+    random(state) < AI_SLIDE_CHANCE * pressing
+  ) {
+    input.slide = true
+  }
+  return input
+}
+
+interface BallOption {
+  value: number
+  input: PlayerInput
+}
+
+// Running with the ball: tries a spread of headings around the line to goal and takes the
+// one that gets furthest forward without running into opponents
+function dribbleOption(state: GameState, player: Player): BallOption {
+  const pitch = getPitch(state.rules)
+  const goalX = attackDirection(state, player.team) > 0 ? pitch.width - GOAL_LINE : GOAL_LINE
+  const base = Math.atan2(pitch.height / 2 - player.y, goalX - player.x)
+  let best: BallOption = { value: Number.NEGATIVE_INFINITY, input: { ...EMPTY_INPUT } }
+
+  for (const turn of DRIBBLE_TURNS) {
+    const dx = Math.cos(base + turn)
+    const dy = Math.sin(base + turn)
+    const x = player.x + dx * DRIBBLE_LOOKAHEAD
+    const y = player.y + dy * DRIBBLE_LOOKAHEAD
+    if (y < TOUCHLINE + BALL_MARGIN || y > pitch.height - TOUCHLINE - BALL_MARGIN) continue
+
+    const pressure = Math.max(0, 1 - nearestOpponentDist(state, player.team, x, y) / PRESSURE_RANGE)
+    const value = threat(state, player.team, x, y) - pressure * PRESSURE_WEIGHT
+    if (value > best.value) best = { value, input: { ...EMPTY_INPUT, dx, dy } }
+  }
+
+  // Break into open space, but not with a defender close enough to nick the longer touches
+  const space = nearestOpponentDist(state, player.team, player.x, player.y) > AI_SPRINT_SPACE
+  best.input.sprint = space && player.stamina > AI_SPRINT_STAMINA
+  return best
+}
+
+// Every pass the engine would actually play: one facing each teammate, on the ground and
+// in the air, plus a through ball. Each is worth where it ends up, how much room the
+// receiver has and how likely it is to be cut out.
+function passOptions(state: GameState, player: Player): BallOption[] {
+  const options: BallOption[] = []
+  const arrival = PASS_ARRIVAL_SPEED + (PASS_ARRIVAL_CHARGED - PASS_ARRIVAL_SPEED) * AI_PASS_CHARGE
+  const addOption = (target: PassTarget | null, lob: boolean, input: Partial<PlayerInput>) => {
+    if (!target) return
+    const risk = countInterceptors(state, player.team, target.x, target.y, target.ticks, lob)
+    const space = Math.min(1, nearestOpponentDist(state, player.team, target.x, target.y) / SPACE_RANGE)
+    const value =
+      threat(state, player.team, target.x, target.y) +
+      space * PASS_SPACE_WEIGHT -
+      risk * PASS_RISK_COST -
+      PASS_COST -
+      (lob ? LOB_COST : 0)
+    options.push({ value, input: { ...EMPTY_INPUT, ...input, lob, charge: AI_PASS_CHARGE } })
+  }
+
+  state.players.forEach((mate) => {
+    if (mate.team !== player.team || mate.id === player.id || mate.sentOff) return
+    const dist = Math.hypot(mate.x - player.x, mate.y - player.y) || 1
+    const dx = (mate.x - player.x) / dist
+    const dy = (mate.y - player.y) / dist
+    for (const lob of [false, true]) {
+      // Only count the pass if turning to this teammate really picks them out
+      const target = choosePassTarget(state, { ...player, facingX: dx, facingY: dy }, lob, arrival)
+      if (target?.receiver.id === mate.id) addOption(target, lob, { dx, dy, pass: true })
+    }
+  })
+
+  const through = chooseThroughBall(state, player, false)
+  if (through) {
+    const dist = Math.hypot(through.x - player.x, through.y - player.y) || 1
+    addOption(through, false, { dx: (through.x - player.x) / dist, dy: (through.y - player.y) / dist, through: true })
+  }
+  return options
+}
+
+// A shot inside the post further from the keeper, if it is on at all. Better shooters
+// try from further out; every opponent in the way makes it less likely to go in.
+function shotOption(state: GameState, player: Player): BallOption | null {
+  const pitch = getPitch(state.rules)
+  const { ball } = state
+  const goalX = attackDirection(state, player.team) > 0 ? pitch.width - GOAL_LINE : GOAL_LINE
+  const keeper = state.players.find((other) => other.team !== player.team && other.isGoalkeeper && !other.sentOff)
+  const side = (keeper ?? ball).y < pitch.height / 2 ? 1 : -1
+  const aimY = pitch.height / 2 + side * (pitch.goalWidth / 2 - BALL_MARGIN)
+
+  const dx = goalX - ball.x
+  const dy = aimY - ball.y
+  const dist = Math.sqrt(dx * dx + dy * dy)
+  const range = SHOT_RANGE * attributeScale(player.attributes.shooting)
+  if (dist > range) return null
+
+  const blockers = countInterceptors(state, player.team, goalX, aimY, dist / SHOOT_POWER, false)
+  const quality = ((1 - dist / range) * (Math.abs(dx) / dist)) / (1 + blockers)
+  if (quality < MIN_SHOT_QUALITY) return null
+  return {
+    value: SHOT_VALUE + quality,
+    input: { ...EMPTY_INPUT, ...missAim(state, dx / dist, dy / dist), shoot: true, charge: 1 },
+  }
+}
+
+// On the ball: weighs running with it against every pass and a shot, and plays the best.
+// Below Legend each option is misjudged a little, so weaker sides give the ball away and
+// pass up chances.
+function playOnBall(state: GameState, player: Player): PlayerInput {
+  const noise = DIFFICULTY_SETTINGS[state.rules.difficulty].decisionNoise
+  const shot = shotOption(state, player)
+  const options = [dribbleOption(state, player), ...passOptions(state, player), ...(shot ? [shot] : [])]
+  let best = options[0]
+  let bestValue = Number.NEGATIVE_INFINITY
+  options.forEach((option, i) => {
+    const value = option.value + misjudgement(state, player, i) * noise
+    if (value > bestValue) {
+      bestValue = value
+      best = option
+    }
+  })
+  return best.input
+}
+
+// Where a ball coming at the goal `keeper` defends passes across them, and how soon. Null
+// unless it is on target and close enough to be worth going for, and until the keeper has
+// had time to pick up a fresh strike, which beats them from close in.
+function readShot(state: GameState, keeper: Player): { y: number; ticks: number } | null {
+  const pitch = getPitch(state.rules)
+  const { ball } = state
+  if (ball.ownerId || ball.velocityX * attackDirection(state, keeper.team) >= 0) return null
+  const reaction = KEEPER_REACTION_TICKS + DIFFICULTY_SETTINGS[state.rules.difficulty].reactionTicks
+  if (ball.aftertouch > AFTERTOUCH_TICKS - reaction) return null
+
+  const seen = readBall(state)
+  const ticks = (keeper.x - seen.x) / ball.velocityX
+  if (ticks <= 0 || ticks > KEEPER_SAVE_TICKS) return null
+  const y = seen.y + ball.velocityY * ticks
+  if (Math.abs(y - pitch.height / 2) > pitch.goalWidth / 2 + KEEPER_SAVE_MARGIN) return null
+  return { y, ticks }
+}
+
+// Gets across to where a shot will pass at `y` in `ticks`, diving once it is too late to
+// get there on foot
+function saveShot(state: GameState, keeper: Player, y: number, ticks: number): PlayerInput {
+  const gap = y - keeper.y
+  const run = DIFFICULTY_SETTINGS[state.rules.difficulty].speed * ticks
+  if (ticks <= DIVE_FLIGHT && Math.abs(gap) > keeperReach(state, keeper).range + run) {
+    return { ...EMPTY_INPUT, dy: Math.sign(gap), slide: true }
+  }
+  return moveTo(state, keeper, keeper.x, y, true)
+}
+
+// The teammate a keeper with the ball throws to: a defender if one is free, otherwise any
+// outfield player with room who is close enough and has no opponent in the way. Only
+// counts someone the throw would really go to once the keeper turns to them.
+function findThrowTarget(state: GameState, keeper: Player): Player | null {
+  let best: Player | null = null
+  let bestScore = Number.NEGATIVE_INFINITY
+
+  state.players.forEach((mate) => {
+    if (mate.team !== keeper.team || mate.id === keeper.id || mate.sentOff) return
+    const dist = Math.hypot(mate.x - keeper.x, mate.y - keeper.y) || 1
+    const space = nearestOpponentDist(state, keeper.team, mate.x, mate.y)
+    if (dist > KEEPER_THROW_RANGE || space < KEEPER_THROW_SPACE) return
+    if (countInterceptors(state, keeper.team, mate.x, mate.y, dist / THROW_POWER, false) > 0) return
+
+    const facing = { ...keeper, facingX: (mate.x - keeper.x) / dist, facingY: (mate.y - keeper.y) / dist }
+    if (findNearestTeammate(state.players, facing)?.id !== mate.id) return
+    const score = space + (getFormationSlot(state, mate)?.role === "defender" ? SPACE_RANGE : 0)
+    if (score > bestScore) {
+      bestScore = score
+      best = mate
+    }
+  })
+  return best
+}
+
+// Keepers read shots and dive for the ones they cannot reach on foot, come off their line
+// to narrow the angle on a carrier through on goal and rush them once close, and claim
+// loose balls in their box. With the ball they take a moment, then throw it to a free
+// teammate or punt it upfield.
+function updateKeeperAI(state: GameState, player: Player): PlayerInput {
+  const pitch = getPitch(state.rules)
+  const ball = state.ball
+  const input: PlayerInput = { ...EMPTY_INPUT }
+  const dir = attackDirection(state, player.team)
+  const goalX = dir > 0 ? GOAL_LINE : pitch.width - GOAL_LINE
+
+  if (player.hasBall && ball.isGrabbed) {
+    if (GRAB_DURATION - player.grabTimer > KEEPER_HOLD_TICKS) {
+      const target = findThrowTarget(state, player)
+      if (target) {
+        const dist = Math.hypot(target.x - player.x, target.y - player.y) || 1
+        return { ...input, dx: (target.x - player.x) / dist, dy: (target.y - player.y) / dist, pass: true }
+      }
+      input.dx = dir
+      input.shoot = true
+    }
+    return input
+  }
+
+  const ballDist = Math.hypot(ball.x - player.x, ball.y - player.y)
+  const canHandle = ball.releasedBy !== player.id && ball.z < keeperReach(state, player).height
+  if (!ball.ownerId && canHandle && ballDist < GRAB_RANGE && inPenaltyArea(state, player.team, ball.x, ball.y)) {
+    input.grab = true
+    return input
+  }
+
+  const shot = readShot(state, player)
+  if (shot) return saveShot(state, player, shot.y, shot.ticks)
+
+  const carrier = state.players.find((p) => p.id === ball.ownerId)
+  if (carrier && carrier.team !== player.team) {
+    const covered = state.players.some(
+      (mate) =>
+        mate.team === player.team &&
+        !mate.isGoalkeeper &&
+        !mate.sentOff &&
+        (carrier.x - mate.x) * dir > 0 &&
+        Math.hypot(carrier.x - mate.x, carrier.y - mate.y) < KEEPER_COVER_RANGE,
+    )
+    const inBox = inPenaltyArea(state, player.team, carrier.x, carrier.y)
+    if (!covered && inBox && ballDist < KEEPER_RUSH_RANGE) {
+      // Through on goal: go at the ball, and go down at the carrier's feet once close
+      if (ballDist < KEEPER_SMOTHER_RANGE) {
+        return { ...input, dx: (ball.x - player.x) / ballDist, dy: (ball.y - player.y) / ballDist, slide: true }
+      }
+      return moveTo(state, player, ball.x, ball.y, true, input)
+    }
+
+    // Come off the line along the way to the carrier, cutting down the goal they can see
+    const dx = carrier.x - goalX
+    const dy = carrier.y - pitch.height / 2
+    const dist = Math.hypot(dx, dy) || 1
+    const out = Math.max(KEEPER_LINE, Math.min(KEEPER_NARROW_MAX, dist * KEEPER_NARROW))
+    return moveTo(state, player, goalX + (dx / dist) * out, pitch.height / 2 + (dy / dist) * out, false, input)
+  }
+
+  let targetX = goalX + dir * KEEPER_LINE
+  // Cover the goal mouth, staying just inside the posts
+  const cover = pitch.goalWidth / 2 - 5
+  let targetY = Math.max(pitch.height / 2 - cover, Math.min(pitch.height / 2 + cover, readBall(state).y))
+
+  if (
+    !ball.ownerId &&
+    canHandle &&
+    ballDist < KEEPER_CLAIM_RANGE &&
+    inPenaltyArea(state, player.team, ball.x, ball.y)
+  ) {
+    targetX = ball.x
+    targetY = ball.y
+  }
+  return moveTo(state, player, targetX, targetY, false, input)
+}
+
+// Outfield players off the ball. In possession they hold the shape and find space to
+// receive; out of it one player goes to the ball while the rest mark or hold the shape.
+function updateOffBallAI(state: GameState, player: Player, slot: FormationSlot): PlayerInput {
+  const { ball } = state
+  const dir = attackDirection(state, player.team)
+  const owner = ball.ownerId ? state.players.find((p) => p.id === ball.ownerId) : undefined
+  // A keeper holding the ball cannot be challenged, so nobody goes to it
+  const chaser = ball.isGrabbed ? null : findChaser(state, player.team)
+
+  // A loose ball the team played last is still theirs, for everyone but the chaser
+  if (owner ? owner.team === player.team : ball.lastTouch === player.team && chaser?.id !== player.id) {
+    const spot = supportPosition(state, player, slot)
+    return moveTo(state, player, spot.x, spot.y, (spot.x - player.x) * dir > SUPPORT_SPRINT_DISTANCE)
+  }
+
+  if (chaser?.id === player.id) {
+    if (owner) return pressCarrier(state, player, owner)
+    const seen = readBall(state)
+    const spot = clampToPitch(
+      state,
+      seen.x + ball.velocityX * CHASE_LOOKAHEAD,
+      seen.y + ball.velocityY * CHASE_LOOKAHEAD,
+    )
+    return moveTo(
+      state,
+      player,
+      spot.x,
+      spot.y,
+      Math.hypot(ball.x - player.x, ball.y - player.y) < AI_SPRINT_CHASE_RANGE,
+    )
+  }
+
+  const mark = owner ? findMark(state, player, chaser?.id ?? null) : null
+  if (mark) {
+    // Goal-side of their man, leaning towards the ball to cut out the pass
+    const spot = goalSide(state, player.team, mark.x, mark.y, MARK_GOAL_SIDE)
+    const x = spot.x + (ball.x - spot.x) * MARK_BALL_LEAN
+    const y = spot.y + (ball.y - spot.y) * MARK_BALL_LEAN
+    return moveTo(state, player, x, y, (mark.x - player.x) * dir < 0)
+  }
+
+  const spot = shapePosition(state, slot, player.team, false)
+  return moveTo(state, player, spot.x, spot.y, false)
+}
+
+export function updateAI(state: GameState, player: Player): PlayerInput {
+  if (state.phase === "penalties" && state.shootout) {
+    return updatePenaltyAI(state, player)
+  }
+
+  if (state.setPiece && player.id === state.setPiece.takerId) {
+    return updateSetPieceAI(state, player)
+  }
+
+  if (player.hasBall && !state.ball.isGrabbed) return playOnBall(state, player)
+
+  const slot = getFormationSlot(state, player)
+  return slot ? updateOffBallAI(state, player, slot) : updateKeeperAI(state, player)
+}
+
+// Fills in inputs for every player that is not under human control. Human inputs passed
+// in are kept as they are.
+export function withAIInputs(state: GameState, inputs: Record<string, PlayerInput>): Record<string, PlayerInput> {
+  const result = { ...inputs }
+
+  state.players.forEach((player) => {
+    if (!player.isHuman && !result[player.id]) {
+      result[player.id] = updateAI(state, player)
+    }
+  })
+
+  return result
+}
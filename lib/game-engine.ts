@@ -0,0 +1,2339 @@
+// Shared match simulation used by the Redis store, the WebSocket route and local play.
+// Everything in here is framework-free: no React, no audio, no I/O. `step` mutates the
+// state it is given and reports what happened as events, so each caller decides what
+// to do with them (play a sound, broadcast, ignore).
+
+export type Team = "home" | "away"
+
+// Ratings from 0 to 100 that scale the matching global constants for one player; 50 plays
+// exactly like the constants.
+export interface PlayerAttributes {
+  pace: number // top speed, walking and sprinting
+  shooting: number // shot power
+  passing: number // pass accuracy
+  tackling: number // how far a slide or a poke reaches
+  goalkeeping: number // how far and how high a keeper can gather the ball
+}
+
+export interface Player {
+  id: string
+  name: string
+  shirtNumber: number // squad slot plus one, so the keeper wears 1
+  x: number
+  y: number
+  team: Team
+  isGoalkeeper: boolean
+  isHuman: boolean
+  hasBall: boolean
+  isSliding: boolean
+  slideTimer: number
+  grabTimer: number
+  diveTimer: number // ticks left of a keeper's dive, in the air and then down on the grass
+  velocityX: number
+  velocityY: number
+  facingX: number
+  facingY: number
+  animFrame: number
+  yellowCards: number
+  sentOff: boolean // red-carded players leave the pitch and take no further part
+  stamina: number // 0 to 1; sprinting and sliding use it up, walking gets it back
+  isSprinting: boolean
+  attributes: PlayerAttributes
+}
+
+export interface Ball {
+  x: number
+  y: number
+  velocityX: number
+  velocityY: number
+  ownerId: string | null
+  isGrabbed: boolean
+  lastTouch: Team | null // team of the last player to play the ball, for restarts
+  indirect: boolean // played from an indirect free kick and not touched since; cannot score
+  z: number // height above the pitch
+  velocityZ: number
+  kickerId: string | null // who struck it last, and can still bend it while aftertouch lasts
+  aftertouch: number
+  spin: number // -1 to 1, the kicker's latest curve input
+  releasedBy: string | null // keeper who let go of it; they may not handle it again until someone else touches it
+}
+
+// "playing" covers open play and goal celebrations; "finished" is terminal.
+export type MatchPhase = "playing" | "halftime" | "penalties" | "finished"
+
+// How a match that is level at full time gets decided. Extra time and golden goal both
+// fall back to penalties if the score is still level after the extra periods.
+export type Tiebreak = "none" | "extraTime" | "goldenGoal" | "penalties"
+
+// The playing area, in pixels from the top-left corner of the canvas. The goal lines sit
+// GOAL_LINE in from the ends and the touchlines TOUCHLINE in from the sides.
+export interface Pitch {
+  width: number
+  height: number
+  goalWidth: number
+  goalAreaDepth: number
+  goalAreaWidth: number
+  penaltyAreaDepth: number
+  penaltyAreaWidth: number
+  centerCircleRadius: number
+}
+
+export type PitchSize = "futsal" | "standard" | "full"
+
+// Conditions the match is played in. Mud lays soft patches on the pitch; everything else
+// is the same all over.
+export type Weather = "clear" | "rain" | "snow" | "wind" | "mud"
+
+export interface WeatherEffects {
+  ballFriction: number // added to the pitch speed for a rolling ball
+  playerSpeed: number // multiplies running speed
+  slideDuration: number // multiplies how long a slide lasts
+}
+
+// How well the computer plays its players
+export type Difficulty = "easy" | "normal" | "hard" | "legend"
+
+export interface DifficultySettings {
+  speed: number // running speed the AI steers at; humans run at PLAYER_SPEED
+  reactionTicks: number // how far behind a moving ball the AI reads it
+  decisionNoise: number // spread of the misjudgement added to each option on the ball
+  shotSpread: number // most a shot strays from the aim, in radians
+  keeperReach: number // multiplies a computer keeper's reach
+  pressing: number // multiplies how tight and how eagerly the ball carrier is closed down
+}
+
+// A soft patch of a muddy pitch, where the ball dies and players wade
+export interface MudPatch {
+  x: number
+  y: number
+  radius: number
+}
+
+// What an outfield player is there to do: defenders hold the back and mark, midfielders
+// link play and press, forwards stay high and run in behind
+export type Role = "defender" | "midfielder" | "forward"
+
+// A place in a team's shape for the side defending the left-hand goal, as shares of the
+// pitch's length and width so it fits any layout
+export interface FormationSlot {
+  role: Role
+  x: number
+  y: number
+}
+
+// Per-match settings, fixed when the match is created
+export interface RoomRules {
+  halves: number
+  halfLength: number // seconds of playing time per half
+  tiebreak: Tiebreak
+  extraTimeLength: number // seconds per extra-time period
+  classicRules: boolean // ball can go out for throw-ins, corners and goal kicks instead of bouncing
+  offside: boolean
+  teamSize: number // players a side, 1 to 5; 1v1 is played without keepers
+  pitch: PitchSize
+  goalWidth: number // distance between the posts
+  ballFriction: number // share of its speed a rolling ball keeps each tick
+  slideTackles: boolean
+  weather: Weather
+  difficulty: Difficulty // how well the computer plays every player no one is controlling
+}
+
+export interface Shootout {
+  kicks: { home: boolean[]; away: boolean[] } // true for a scored penalty
+  kickingTeam: Team
+  kickerId: string | null
+  keeperId: string | null
+  // ready: players walk into place, aiming: kicker lines up, taken: ball in flight,
+  // result: short pause showing the outcome
+  stage: "ready" | "aiming" | "taken" | "result"
+}
+
+// Restart from the centre spot. While `countdown` runs everyone is frozen and the clock
+// is stopped; after that the kicking team's taker holds the ball on the spot and every
+// other player must keep to their own half and out of the centre circle until the ball
+// is played.
+export interface Kickoff {
+  team: Team
+  countdown: number
+  takerId: string | null
+}
+
+export type SetPieceType = "throwIn" | "corner" | "goalKick" | "freeKick" | "indirectFreeKick" | "penalty"
+
+export type Card = "yellow" | "red"
+
+// Restart after the ball goes out under classic rules. Like a kickoff, `countdown` freezes
+// play while the taker is placed; then the taker may turn to aim but not walk, and has
+// `timer` ticks to play the ball before it is taken for them. Opponents keep their
+// distance until then.
+export interface SetPiece {
+  type: SetPieceType
+  team: Team
+  x: number
+  y: number
+  countdown: number
+  timer: number
+  takerId: string | null
+  card: Card | null // shown while the restart is set up, for the foul that caused it
+  cardPlayerId: string | null
+  offsideX: number | null // defender line to draw when the restart is for offside
+}
+
+// Taken whenever a player passes or shoots with the offside rule on: the second-last
+// defender's line at that moment and which teammates were beyond it. A flagged player who
+// is next to reach the ball is offside; anyone else touching it first clears the record.
+export interface OffsideLine {
+  team: Team
+  x: number
+  flaggedIds: string[]
+}
+
+// A goal as the physics and the renderer see it: posts on the goal line at `top` and
+// `bottom`, with the net running back from the line to `backX` at the end of the pitch.
+export interface GoalFrame {
+  lineX: number
+  backX: number
+  top: number
+  bottom: number
+}
+
+// Match-level state every mode shares. Servers extend it with their own bookkeeping.
+// `seed` and `rngState` drive every random outcome, so the same seed and the same input
+// stream always replay the same match.
+export interface GameRoom {
+  seed: number
+  rngState: number
+  tick: number
+  rules: RoomRules
+  phase: MatchPhase
+  phaseTimer: number // ticks left in a timed phase such as the half-time break
+  half: number
+  halfTicks: number // ticks of playing time elapsed in the current half
+  endsSwapped: boolean // true while home defends the right-hand goal
+  ball: Ball
+  score: { home: number; away: number }
+  gameTime: number // seconds left in the current half, derived from halfTicks
+  isPlaying: boolean
+  lastGoalTeam: Team | null
+  goalCelebration: number
+  kickoff: Kickoff | null
+  setPiece: SetPiece | null
+  offsideLine: OffsideLine | null
+  shootout: Shootout | null
+  wind: { x: number; y: number } // pushed onto a loose ball every tick, zero unless windy
+  mud: MudPatch[] // empty unless muddy
+}
+
+export interface GameState extends GameRoom {
+  players: Player[]
+}
+
+export interface PlayerInput {
+  dx: number
+  dy: number
+  shoot: boolean
+  pass: boolean
+  slide: boolean
+  grab: boolean
+  through: boolean
+  sprint: boolean // held down
+  lob: boolean // shoot or pass was held past a full charge, so the ball is lofted
+  charge: number // 0 to 1, how long shoot or pass was held before release
+  curve: number // -1 to 1, steering across the ball's path during aftertouch
+}
+
+export type GameEvent =
+  | "kick"
+  | "pass"
+  | "slide"
+  | "grab"
+  | "tackle"
+  | "poke"
+  | "header"
+  | "foul"
+  | "card"
+  | "bounce"
+  | "post"
+  | "goal"
+  | "miss"
+  | "whistle"
+
+// Game constants
+export const TICK_RATE = 60
+export const TICK_MS = 1000 / TICK_RATE
+export const MAX_CATCH_UP_TICKS = 10
+export const GOAL_HEIGHT = 150
+export const GOAL_LINE = 25
+export const POST_RADIUS = 3
+export const POST_BOUNCE = 0.7
+export const NET_BOUNCE = 0.2
+export const TOUCHLINE = 25
+export const PLAYER_SIZE = 24
+export const BALL_SIZE = 12
+export const PLAYER_SPEED = 3.5
+export const SPRINT_SPEED = 5
+export const SPRINT_DRAIN = 1 / (5 * TICK_RATE) // a full tank lasts five seconds of sprinting
+export const SLIDE_STAMINA = 0.1
+export const STAMINA_RECOVERY = 1 / (15 * TICK_RATE)
+// Below this, a player's top speed and shot power fall away, down to TIRED_FACTOR when empty
+export const TIRED_STAMINA = 0.3
+export const TIRED_FACTOR = 0.7
+export const ATTRIBUTE_SPREAD = 0.15 // a rating of 0 or 100 is this much below or above the constant
+export const PASS_SPREAD = 0.2 // radians either side a pass can stray at a passing rating of 0, none from 50 up
+export const PLAYER_FRICTION = 0.88
+export const BALL_FRICTION = 0.98
+export const AIR_DRAG = 0.99
+export const GRAVITY = 0.3
+export const BALL_BOUNCE = 0.5
+export const WALL_BOUNCE = 0.8
+export const WALL_NUDGE_SPEED = 0.5 // slower than this a ball meets a wall silently
+export const SHOOT_POWER = 14
+export const SHOOT_MIN_POWER = 8
+export const PASS_POWER = 9
+export const PASS_MIN_POWER = 6
+export const PASS_MAX_POWER = 12
+export const PASS_ARRIVAL_SPEED = 2 // pace a ground pass still has when it reaches its target, uncharged
+export const PASS_ARRIVAL_CHARGED = 5 // and fully charged
+export const THROUGH_BALL_LEAD = 90
+export const THROUGH_BALL_ARRIVAL = 1
+export const MAX_PASS_LEAD_TICKS = 90 // passes lead a runner by at most this much of their run
+export const INTERCEPT_CLOSING = 0.5 // share of top speed an opponent is assumed to close a pass down at
+export const PASS_RISK_WEIGHT = 1
+export const LOB_LANDING = 0.8 // share of a lofted pass's path after which it is low enough to cut out
+export const AFTERTOUCH_TICKS = 20
+export const KICK_CLEAR_TICKS = 8 // a kicker cannot take the ball back this soon after striking it
+export const CURVE_RATE = 0.025 // radians the ball turns per tick at full curve
+// Clients charge shoot and pass while the button is down: full power after FULL_CHARGE_MS,
+// and holding on until LOB_HOLD_MS lofts the ball instead
+export const FULL_CHARGE_MS = 600
+export const LOB_HOLD_MS = 900
+export const SLIDE_SPEED = 7
+export const SLIDE_DURATION = 25
+export const GRAB_DURATION = 5 * TICK_RATE // longest a keeper may hold the ball before it is punted for them
+export const DIVE_DURATION = 36 // ticks a diving keeper is out of the game for
+export const DIVE_FLIGHT = 14 // of which this many are spent in the air
+export const DIVE_SPEED = 5
+export const DIVE_REACH = 1.8 // multiplies a keeper's reach while in the air
+export const PUNT_POWER = 12
+export const PUNT_LIFT = 6
+export const LOB_POWER = 8
+export const LOB_LIFT = 6
+export const HEADER_POWER = 8
+export const HEADER_LIFT = 2
+// Heights, in the same units as the pitch. Players can bring the ball down below
+// CONTROL_HEIGHT, head it up to HEAD_HEIGHT, and keepers catch it up to KEEPER_REACH.
+export const CONTROL_HEIGHT = 20
+export const HEAD_HEIGHT = 34
+export const KEEPER_REACH = 40
+export const CROSSBAR_HEIGHT = 48
+export const GRAB_RANGE = PLAYER_SIZE * 2.5
+export const BALL_REACH = PLAYER_SIZE / 2 + BALL_SIZE / 2 + 4 // a player touches the ball inside this
+export const FOUL_RANGE = PLAYER_SIZE + 1 // bodies in contact, allowing for rounding after separation
+export const KICK_RANGE = BALL_REACH * 2 // a dribbler can still shoot or pass a ball this far ahead
+export const LOSE_CONTROL_RANGE = 60
+export const DRIBBLE_TOUCH = 1.4 // each touch sends the ball ahead this many times the player's speed
+export const DRIBBLE_TURN_ERROR = 1.2 // radians of wobble on a touch taken from right behind
+export const TRAP_DAMPING = 0.5
+export const POKE_POWER = 5
+export const PLAYER_MASS = 1
+export const SLIDE_MASS = 2
+export const KEEPER_HOLDING_MASS = 4
+export const GOAL_CELEBRATION_FRAMES = 150
+export const HALFTIME_FRAMES = 4 * TICK_RATE
+export const KICKOFF_COUNTDOWN_FRAMES = 3 * TICK_RATE
+export const SET_PIECE_SETUP_FRAMES = TICK_RATE
+export const SET_PIECE_TIME = 5 * TICK_RATE
+export const SET_PIECE_DISTANCE = 60
+export const THROW_POWER = 8
+export const FOUL_SETUP_FRAMES = 2 * TICK_RATE
+export const EXTRA_PERIODS = 2
+export const SHOOTOUT_ROUNDS = 5
+export const PENALTY_SPOT_DISTANCE = 80 // from the end of the pitch
+export const PENALTY_AREA_MARGIN = 15 // the penalty area reaches at least this far past each post
+export const GOAL_AREA_MARGIN = 10 // the goal area reaches this far past each post, inside the penalty area
+export const PENALTY_READY_FRAMES = TICK_RATE
+export const PENALTY_AIM_FRAMES = 5 * TICK_RATE
+export const PENALTY_FLIGHT_FRAMES = 3 * TICK_RATE
+export const PENALTY_RESULT_FRAMES = 2 * TICK_RATE
+
+export const TIEBREAKS: Tiebreak[] = ["none", "extraTime", "goldenGoal", "penalties"]
+
+export const DEFAULT_RULES: RoomRules = {
+  halves: 2,
+  halfLength: 90,
+  tiebreak: "none",
+  extraTimeLength: 30,
+  classicRules: false,
+  offside: false,
+  teamSize: 5,
+  pitch: "standard",
+  goalWidth: GOAL_HEIGHT,
+  ballFriction: BALL_FRICTION,
+  slideTackles: true,
+  weather: "clear",
+  difficulty: "normal",
+}
+
+export const PITCH_SIZES: PitchSize[] = ["futsal", "standard", "full"]
+
+// Layouts a room can be played on; the goal width is a rule of its own, which sizes the goal
+// area and widens the penalty area to fit
+export const PITCH_LAYOUTS: Record<PitchSize, Omit<Pitch, "goalWidth" | "goalAreaWidth">> = {
+  futsal: {
+    width: 600,
+    height: 380,
+    goalAreaDepth: 26,
+    penaltyAreaDepth: 60,
+    penaltyAreaWidth: 210,
+    centerCircleRadius: 45,
+  },
+  standard: {
+    width: 800,
+    height: 500,
+    goalAreaDepth: 35,
+    penaltyAreaDepth: 80,
+    penaltyAreaWidth: 180,
+    centerCircleRadius: 60,
+  },
+  full: {
+    width: 1040,
+    height: 600,
+    goalAreaDepth: 45,
+    penaltyAreaDepth: 100,
+    penaltyAreaWidth: 220,
+    centerCircleRadius: 75,
+  },
+}
+
+export const WEATHERS: Weather[] = ["clear", "rain", "snow", "wind", "mud"]
+
+export const WEATHER_EFFECTS: Record<Weather, WeatherEffects> = {
+  clear: { ballFriction: 0, playerSpeed: 1, slideDuration: 1 },
+  rain: { ballFriction: 0.006, playerSpeed: 1, slideDuration: 1.5 },
+  snow: { ballFriction: -0.015, playerSpeed: 0.85, slideDuration: 0.8 },
+  wind: { ballFriction: 0, playerSpeed: 1, slideDuration: 1 },
+  mud: { ballFriction: 0, playerSpeed: 1, slideDuration: 1 },
+}
+
+export const DIFFICULTIES: Difficulty[] = ["easy", "normal", "hard", "legend"]
+
+// The engine applies the keeper reach; everything else steers lib/game-ai
+export const DIFFICULTY_SETTINGS: Record<Difficulty, DifficultySettings> = {
+  easy: { speed: 2.4, reactionTicks: 10, decisionNoise: 0.25, shotSpread: 0.12, keeperReach: 0.8, pressing: 0.6 },
+  normal: { speed: 2.8, reactionTicks: 4, decisionNoise: 0.06, shotSpread: 0.06, keeperReach: 1, pressing: 1 },
+  hard: { speed: 3.1, reactionTicks: 2, decisionNoise: 0.03, shotSpread: 0.04, keeperReach: 1.1, pressing: 1.2 },
+  legend: { speed: 3.3, reactionTicks: 0, decisionNoise: 0, shotSpread: 0.02, keeperReach: 1.2, pressing: 1.4 },
+}
+
+export const MAX_ROLLING_FRICTION = 0.995 // even a soaked fast pitch stops the ball eventually
+export const WIND_STRENGTH = 0.012 // strongest push on a loose ball per tick
+export const MUD_PATCHES = 5
+export const MUD_FRICTION = 0.04 // taken off the rolling friction inside a patch
+export const MUD_SPEED = 0.7 // running speed inside a patch
+
+export const MAX_TEAM_SIZE = 5
+export const MIN_GOAL_WIDTH = 100
+export const MAX_GOAL_WIDTH = 200
+export const MIN_BALL_FRICTION = 0.96
+export const MAX_BALL_FRICTION = 0.99
+
+export const DEFAULT_ATTRIBUTES: PlayerAttributes = {
+  pace: 50,
+  shooting: 50,
+  passing: 50,
+  tackling: 50,
+  goalkeeping: 50,
+}
+
+export const EMPTY_INPUT: PlayerInput = {
+  dx: 0,
+  dy: 0,
+  shoot: false,
+  pass: false,
+  slide: false,
+  grab: false,
+  through: false,
+  sprint: false,
+  lob: false,
+  charge: 0,
+  curve: 0,
+}
+
+// Multiplier a 0-100 rating applies to the constant it modifies
+export function attributeScale(rating: number): number {
+  return 1 + ((rating - 50) / 50) * ATTRIBUTE_SPREAD
+}
+
+// How high, and how far around them, a keeper can gather the ball. Computer keepers reach
+// further or less far with the difficulty, and everyone reaches further at full stretch.
+export function keeperReach(state: GameRoom, player: Player): { height: number; range: number } {
+  const level = player.isHuman ? 1 : DIFFICULTY_SETTINGS[state.rules.difficulty].keeperReach
+  const scale = attributeScale(player.attributes.goalkeeping) * level
+  return { height: KEEPER_REACH * scale, range: BALL_REACH * scale * (isDiveFlying(player) ? DIVE_REACH : 1) }
+}
+
+export function isDiveFlying(player: Pick<Player, "diveTimer">): boolean {
+  return player.diveTimer > DIVE_DURATION - DIVE_FLIGHT
+}
+
+function tackleReach(player: Player): number {
+  return BALL_REACH * attributeScale(player.attributes.tackling)
+}
+
+// Multiplier on top speed and shot power: 1 until stamina runs low, then down to TIRED_FACTOR
+export function staminaFactor(player: Player): number {
+  if (player.stamina >= TIRED_STAMINA) return 1
+  return TIRED_FACTOR + (1 - TIRED_FACTOR) * (player.stamina / TIRED_STAMINA)
+}
+
+export function chargeLevel(heldMs: number): number {
+  return Math.min(1, heldMs / FULL_CHARGE_MS)
+}
+
+// Aftertouch steering from a directional input, +1 when it points right of the ball's path
+// and -1 when it points left. Either way the ball bends towards the input.
+export function aftertouchCurve(ball: Ball, dx: number, dy: number): number {
+  const speed = Math.sqrt(ball.velocityX ** 2 + ball.velocityY ** 2)
+  const magnitude = Math.sqrt(dx * dx + dy * dy)
+  if (speed === 0 || magnitude === 0) return 0
+  const cross = (ball.velocityX * dy - ball.velocityY * dx) / (speed * magnitude)
+  return Math.max(-1, Math.min(1, cross))
+}
+
+// Picks a fresh match seed. This is the only non-deterministic call in the engine and is
+// meant to be made once, when a match is created.
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff) | 0
+}
+
+// Mulberry32, advanced in place on the match state. Returns a float in [0, 1).
+export function random(state: GameRoom): number {
+  let t = (state.rngState = (state.rngState + 0x6d2b79f5) | 0)
+  t = Math.imul(t ^ (t >>> 15), t | 1)
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+// Works out how many fixed ticks are due since `lastTick`. The returned `lastTick` keeps
+// the leftover fraction of a tick, unless the caller fell so far behind that the backlog
+// is dropped rather than simulated in one burst.
+export function consumeTicks(
+  lastTick: number,
+  now: number,
+  maxTicks = MAX_CATCH_UP_TICKS,
+): { ticks: number; lastTick: number } {
+  const due = Math.floor((now - lastTick) / TICK_MS)
+  if (due <= 0) return { ticks: 0, lastTick }
+  if (due > maxTicks) return { ticks: maxTicks, lastTick: now }
+  return { ticks: due, lastTick: lastTick + due * TICK_MS }
+}
+
+// What each input still holds after the first tick of a catch-up batch: the stick, sprint
+// and curve carry on, while button presses land on the first tick only, like a key press
+// between frames
+export function heldInputs(inputs: Record<string, PlayerInput>): Record<string, PlayerInput> {
+  const held: Record<string, PlayerInput> = {}
+  Object.entries(inputs).forEach(([id, { dx, dy, sprint, curve }]) => {
+    held[id] = { ...EMPTY_INPUT, dx, dy, sprint, curve }
+  })
+  return held
+}
+
+export function otherTeam(team: Team): Team {
+  return team === "home" ? "away" : "home"
+}
+
+// +1 when the team attacks the right-hand goal, -1 when it attacks the left one
+export function attackDirection(state: GameRoom, team: Team): 1 | -1 {
+  return (team === "home") !== state.endsSwapped ? 1 : -1
+}
+
+// True if (x, y) is inside the penalty area that `team` defends
+export function inPenaltyArea(state: GameRoom, team: Team, x: number, y: number): boolean {
+  const pitch = getPitch(state.rules)
+  if (Math.abs(y - pitch.height / 2) > pitch.penaltyAreaWidth / 2) return false
+  return attackDirection(state, team) > 0
+    ? x < GOAL_LINE + pitch.penaltyAreaDepth
+    : x > pitch.width - GOAL_LINE - pitch.penaltyAreaDepth
+}
+
+export function getPitch(rules: RoomRules): Pitch {
+  const layout = PITCH_LAYOUTS[rules.pitch]
+  return {
+    ...layout,
+    goalWidth: rules.goalWidth,
+    goalAreaWidth: rules.goalWidth + GOAL_AREA_MARGIN * 2,
+    penaltyAreaWidth: Math.max(layout.penaltyAreaWidth, rules.goalWidth + PENALTY_AREA_MARGIN * 2),
+  }
+}
+
+// Share of its speed a rolling ball keeps each tick, off the mud
+export function groundFriction(rules: RoomRules): number {
+  return Math.min(MAX_ROLLING_FRICTION, rules.ballFriction + WEATHER_EFFECTS[rules.weather].ballFriction)
+}
+
+export function inMud(state: GameRoom, x: number, y: number): boolean {
+  return state.mud.some((patch) => Math.hypot(x - patch.x, y - patch.y) < patch.radius)
+}
+
+export function getGoalFrame(side: "left" | "right", pitch: Pitch): GoalFrame {
+  const top = pitch.height / 2 - pitch.goalWidth / 2
+  const bottom = pitch.height / 2 + pitch.goalWidth / 2
+  return side === "left"
+    ? { lineX: GOAL_LINE, backX: 0, top, bottom }
+    : { lineX: pitch.width - GOAL_LINE, backX: pitch.width, top, bottom }
+}
+
+// Clamps rules sent by a client to sensible values, filling gaps from the defaults
+export function parseRoomRules(input: unknown): RoomRules {
+  const raw = (input && typeof input === "object" ? input : {}) as Partial<Record<keyof RoomRules, unknown>>
+  const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+    typeof value === "number" && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback
+  const clampInt = (value: unknown, min: number, max: number, fallback: number) =>
+    Math.round(clamp(value, min, max, fallback))
+
+  return {
+    halves: clampInt(raw.halves, 1, 2, DEFAULT_RULES.halves),
+    halfLength: clampInt(raw.halfLength, 30, 600, DEFAULT_RULES.halfLength),
+    tiebreak: TIEBREAKS.includes(raw.tiebreak as Tiebreak) ? (raw.tiebreak as Tiebreak) : DEFAULT_RULES.tiebreak,
+    extraTimeLength: clampInt(raw.extraTimeLength, 15, 300, DEFAULT_RULES.extraTimeLength),
+    classicRules: typeof raw.classicRules === "boolean" ? raw.classicRules : DEFAULT_RULES.classicRules,
+    offside: typeof raw.offside === "boolean" ? raw.offside : DEFAULT_RULES.offside,
+    teamSize: clampInt(raw.teamSize, 1, MAX_TEAM_SIZE, DEFAULT_RULES.teamSize),
+    pitch: PITCH_SIZES.includes(raw.pitch as PitchSize) ? (raw.pitch as PitchSize) : DEFAULT_RULES.pitch,
+    goalWidth: clampInt(raw.goalWidth, MIN_GOAL_WIDTH, MAX_GOAL_WIDTH, DEFAULT_RULES.goalWidth),
+    ballFriction: clamp(raw.ballFriction, MIN_BALL_FRICTION, MAX_BALL_FRICTION, DEFAULT_RULES.ballFriction),
+    slideTackles: typeof raw.slideTackles === "boolean" ? raw.slideTackles : DEFAULT_RULES.slideTackles,
+    weather: WEATHERS.includes(raw.weather as Weather) ? (raw.weather as Weather) : DEFAULT_RULES.weather,
+    difficulty: DIFFICULTIES.includes(raw.difficulty as Difficulty)
+      ? (raw.difficulty as Difficulty)
+      : DEFAULT_RULES.difficulty,
+  }
+}
+
+export function isExtraTime(state: GameRoom): boolean {
+  return state.half > state.rules.halves
+}
+
+function countScored(kicks: boolean[]): number {
+  return kicks.filter(Boolean).length
+}
+
+// Winner of a shootout, or null while it can still go either way. The first
+// SHOOTOUT_ROUNDS rounds end early once one side cannot catch up; after that it is
+// sudden death, decided at the end of any round where one side scores and the other
+// does not.
+export function getShootoutWinner(shootout: Shootout): Team | null {
+  const { home, away } = shootout.kicks
+  const homeGoals = countScored(home)
+  const awayGoals = countScored(away)
+
+  if (home.length <= SHOOTOUT_ROUNDS && away.length <= SHOOTOUT_ROUNDS) {
+    if (homeGoals > awayGoals + (SHOOTOUT_ROUNDS - away.length)) return "home"
+    if (awayGoals > homeGoals + (SHOOTOUT_ROUNDS - home.length)) return "away"
+    return null
+  }
+
+  if (home.length === away.length && homeGoals !== awayGoals) {
+    return homeGoals > awayGoals ? "home" : "away"
+  }
+  return null
+}
+
+export function getWinner(state: GameRoom): Team | null {
+  if (state.score.home !== state.score.away) {
+    return state.score.home > state.score.away ? "home" : "away"
+  }
+  return state.shootout ? getShootoutWinner(state.shootout) : null
+}
+
+export function createInitialBall(pitch: Pitch): Ball {
+  return {
+    x: pitch.width / 2,
+    y: pitch.height / 2,
+    velocityX: 0,
+    velocityY: 0,
+    ownerId: null,
+    isGrabbed: false,
+    lastTouch: null,
+    indirect: false,
+    z: 0,
+    velocityZ: 0,
+    kickerId: null,
+    aftertouch: 0,
+    spin: 0,
+    releasedBy: null,
+  }
+}
+
+// Team shapes by how many outfield players a side has left, listed in squad order. A lone
+// outfield player covers the whole pitch from midfield.
+const FORMATIONS: FormationSlot[][] = [
+  [],
+  [{ role: "midfielder", x: 0.3, y: 0.5 }],
+  [
+    { role: "defender", x: 0.1875, y: 0.5 },
+    { role: "forward", x: 0.375, y: 0.5 },
+  ],
+  [
+    { role: "defender", x: 0.1875, y: 0.5 },
+    { role: "midfielder", x: 0.3, y: 0.3 },
+    { role: "forward", x: 0.375, y: 0.65 },
+  ],
+  [
+    { role: "defender", x: 0.1875, y: 0.5 },
+    { role: "midfielder", x: 0.3, y: 0.25 },
+    { role: "midfielder", x: 0.3, y: 0.75 },
+    { role: "forward", x: 0.4, y: 0.5 },
+  ],
+]
+const KEEPER_START_X = 50
+
+// Where `player` fits in their team's shape: the outfield players still on the pitch, in
+// the order they are listed. Null for a keeper. Any players beyond the largest shape
+// double up on its slots.
+export function getFormationSlot(state: GameState, player: Player): FormationSlot | null {
+  const outfield = state.players.filter((p) => p.team === player.team && !p.sentOff && !p.isGoalkeeper)
+  const index = outfield.findIndex((p) => p.id === player.id)
+  const shape = FORMATIONS[Math.min(outfield.length, FORMATIONS.length - 1)]
+  return index < 0 ? null : shape[index % shape.length]
+}
+
+// Kickoff position for a formation slot, or in front of goal for the keeper (null)
+export function getInitialPlayerPosition(
+  team: Team,
+  slot: FormationSlot | null,
+  endsSwapped = false,
+  pitch = getPitch(DEFAULT_RULES),
+): { x: number; y: number } {
+  const pos = slot ? { x: slot.x * pitch.width, y: slot.y * pitch.height } : { x: KEEPER_START_X, y: pitch.height / 2 }
+
+  const defendsLeft = (team === "home") !== endsSwapped
+  return defendsLeft ? { x: pos.x, y: pos.y } : { x: pitch.width - pos.x, y: pos.y }
+}
+
+export function createPlayer(
+  id: string,
+  name: string,
+  team: Team,
+  playerIndex: number,
+  isGoalkeeper: boolean,
+  isHuman: boolean,
+  endsSwapped = false,
+  attributes: PlayerAttributes = DEFAULT_ATTRIBUTES,
+): Player {
+  // Lined up as if in a full side; resetPositions places everyone for the actual match
+  const outfield = FORMATIONS[MAX_TEAM_SIZE - 1]
+  const slot = isGoalkeeper ? null : outfield[Math.max(0, playerIndex - 1) % outfield.length]
+  const pos = getInitialPlayerPosition(team, slot, endsSwapped)
+
+  return {
+    id,
+    name,
+    shirtNumber: playerIndex + 1,
+    x: pos.x,
+    y: pos.y,
+    team,
+    isGoalkeeper,
+    isHuman,
+    hasBall: false,
+    isSliding: false,
+    slideTimer: 0,
+    grabTimer: 0,
+    diveTimer: 0,
+    velocityX: 0,
+    velocityY: 0,
+    facingX: (team === "home") !== endsSwapped ? 1 : -1,
+    facingY: 0,
+    // Spread the run cycles out so a team does not move in lockstep
+    animFrame: (playerIndex * 37 + (team === "home" ? 0 : 19)) % 100,
+    yellowCards: 0,
+    sentOff: false,
+    stamina: 1,
+    isSprinting: false,
+    attributes: { ...attributes },
+  }
+}
+
+export function createGameRoom(seed: number, rules: RoomRules = DEFAULT_RULES): GameRoom {
+  const room: GameRoom = {
+    seed,
+    rngState: seed,
+    tick: 0,
+    rules: { ...rules },
+    phase: "playing",
+    phaseTimer: 0,
+    half: 1,
+    halfTicks: 0,
+    endsSwapped: false,
+    ball: createInitialBall(getPitch(rules)),
+    score: { home: 0, away: 0 },
+    gameTime: rules.halfLength,
+    isPlaying: true,
+    lastGoalTeam: null,
+    goalCelebration: 0,
+    kickoff: { team: "home", countdown: KICKOFF_COUNTDOWN_FRAMES, takerId: null },
+    setPiece: null,
+    offsideLine: null,
+    shootout: null,
+    wind: { x: 0, y: 0 },
+    mud: [],
+  }
+  layConditions(room)
+  return room
+}
+
+// Sets the wind and lays the mud from the match RNG, so a replay gets the same weather
+function layConditions(room: GameRoom) {
+  const pitch = getPitch(room.rules)
+  if (room.rules.weather === "wind") {
+    const angle = random(room) * Math.PI * 2
+    const strength = WIND_STRENGTH * (0.5 + random(room) / 2)
+    room.wind = { x: Math.cos(angle) * strength, y: Math.sin(angle) * strength }
+  }
+  if (room.rules.weather === "mud") {
+    for (let i = 0; i < MUD_PATCHES; i++) {
+      room.mud.push({
+        x: GOAL_LINE + random(room) * (pitch.width - GOAL_LINE * 2),
+        y: TOUCHLINE + random(room) * (pitch.height - TOUCHLINE * 2),
+        radius: 30 + random(room) * 40,
+      })
+    }
+  }
+}
+
+// Puts everyone back in formation with the ball on the centre spot and starts the
+// kickoff countdown for `kickoffTeam`. The first player listed for each team keeps goal,
+// unless it is 1v1.
+export function resetPositions(state: GameState, kickoffTeam: Team) {
+  const pitch = getPitch(state.rules)
+  state.ball = createInitialBall(pitch)
+  state.kickoff = { team: kickoffTeam, countdown: KICKOFF_COUNTDOWN_FRAMES, takerId: null }
+  state.setPiece = null
+  state.offsideLine = null
+
+  let homeIndex = 0
+  let awayIndex = 0
+
+  state.players.forEach((player) => {
+    if (player.sentOff) return
+    player.isGoalkeeper = (player.team === "home" ? homeIndex === 0 : awayIndex === 0) && state.rules.teamSize > 1
+    if (player.team === "home") homeIndex++
+    else awayIndex++
+  })
+
+  state.players.forEach((player) => {
+    if (player.sentOff) return
+    const pos = getInitialPlayerPosition(player.team, getFormationSlot(state, player), state.endsSwapped, pitch)
+    player.x = pos.x
+    player.y = pos.y
+    player.hasBall = false
+    player.isSliding = false
+    player.isSprinting = false
+    player.grabTimer = 0
+    player.diveTimer = 0
+    player.velocityX = 0
+    player.velocityY = 0
+    player.facingX = attackDirection(state, player.team)
+    player.facingY = 0
+  })
+}
+
+export function findNearestTeammate(players: Player[], fromPlayer: Player): Player | null {
+  let nearest: Player | null = null
+  let minDist = Number.POSITIVE_INFINITY
+
+  players.forEach((p) => {
+    if (p.id === fromPlayer.id || p.team !== fromPlayer.team || p.sentOff) return
+
+    const dx = p.x - fromPlayer.x
+    const dy = p.y - fromPlayer.y
+    const dist = Math.sqrt(dx * dx + dy * dy)
+
+    // Prefer teammates in front of the passer
+    const dotProduct = dx * fromPlayer.facingX + dy * fromPlayer.facingY
+    const adjustedDist = dotProduct > 0 ? dist * 0.6 : dist * 1.4
+
+    if (adjustedDist < minDist) {
+      minDist = adjustedDist
+      nearest = p
+    }
+  })
+
+  return nearest
+}
+
+// Where a pass is played: the receiver, the point on the pitch the ball is aimed at and
+// how hard it is struck to get there
+export interface PassTarget {
+  receiver: Player
+  x: number
+  y: number
+  power: number
+  ticks: number // roughly how long the ball takes to get there
+}
+
+// Launch speed for a pass over `dist`, and roughly how many ticks it takes. Ground passes
+// are weighted to still be rolling at `arrival` when they get there; lofted ones fly the
+// whole way.
+function passFlight(dist: number, lob: boolean, arrival: number, friction: number): { power: number; ticks: number } {
+  if (lob) return { power: loftedPassPower(dist), ticks: (2 * LOB_LIFT) / GRAVITY + 1 }
+
+  // A rolling ball loses (1 - friction) of its speed per tick, so it covers
+  // (launch - arrival) / (1 - friction) before slowing to `arrival`
+  const power = Math.max(PASS_MIN_POWER, Math.min(PASS_MAX_POWER, arrival + dist * (1 - friction)))
+  const left = power - dist * (1 - friction)
+  const ticks = left > 0 ? Math.log(left / power) / Math.log(friction) : MAX_PASS_LEAD_TICKS
+  return { power, ticks }
+}
+
+// Where a pass from the ball meets `receiver` if they keep running the way they are, plus
+// `ahead` further along the same line for a ball into space. A few rounds of refining
+// the flight time settle it.
+function meetingPoint(state: GameState, receiver: Player, lob: boolean, arrival: number, aheadX = 0) {
+  const pitch = getPitch(state.rules)
+  const { ball } = state
+  let x = receiver.x + aheadX
+  let y = receiver.y
+  let flight = passFlight(Math.hypot(x - ball.x, y - ball.y), lob, arrival, groundFriction(state.rules))
+  for (let i = 0; i < 3; i++) {
+    const lead = Math.min(flight.ticks, MAX_PASS_LEAD_TICKS)
+    x = Math.max(
+      GOAL_LINE + BALL_SIZE,
+      Math.min(pitch.width - GOAL_LINE - BALL_SIZE, receiver.x + aheadX + receiver.velocityX * lead),
+    )
+    y = Math.max(
+      TOUCHLINE + BALL_SIZE,
+      Math.min(pitch.height - TOUCHLINE - BALL_SIZE, receiver.y + receiver.velocityY * lead),
+    )
+    flight = passFlight(Math.hypot(x - ball.x, y - ball.y), lob, arrival, groundFriction(state.rules))
+  }
+  return { x, y, ...flight }
+}
+
+// Opponents who could get to a pass on its way to (x, y). The further along the ball has
+// to travel, the more time they have to close it down. A lofted pass can only be cut out
+// where it comes down.
+export function countInterceptors(state: GameState, team: Team, x: number, y: number, ticks: number, lob: boolean) {
+  const { ball } = state
+  const dx = x - ball.x
+  const dy = y - ball.y
+  const lengthSq = dx * dx + dy * dy || 1
+
+  return state.players.filter((opponent) => {
+    if (opponent.team === team || opponent.sentOff) return false
+    const along = Math.max(0, Math.min(1, ((opponent.x - ball.x) * dx + (opponent.y - ball.y) * dy) / lengthSq))
+    if (lob && along < LOB_LANDING) return false
+    const gap = Math.hypot(ball.x + dx * along - opponent.x, ball.y + dy * along - opponent.y)
+    return gap < BALL_REACH + PLAYER_SPEED * along * Math.min(ticks, MAX_PASS_LEAD_TICKS) * INTERCEPT_CLOSING
+  }).length
+}
+
+// Picks who to pass to: teammates the passer is facing are favoured, as before, and every
+// opponent who could cut the pass out makes a teammate less attractive. The pass is aimed
+// where the receiver will be, not where they are now.
+export function choosePassTarget(state: GameState, passer: Player, lob: boolean, arrival: number): PassTarget | null {
+  let best: PassTarget | null = null
+  let bestScore = Number.POSITIVE_INFINITY
+
+  for (const mate of state.players) {
+    if (mate.id === passer.id || mate.team !== passer.team || mate.sentOff) continue
+
+    const dx = mate.x - passer.x
+    const dy = mate.y - passer.y
+    const facing = dx * passer.facingX + dy * passer.facingY > 0 ? 0.6 : 1.4
+    const point = meetingPoint(state, mate, lob, arrival)
+    const risk = countInterceptors(state, passer.team, point.x, point.y, point.ticks, lob)
+    const score = Math.sqrt(dx * dx + dy * dy) * facing * (1 + risk * PASS_RISK_WEIGHT)
+
+    if (score < bestScore) {
+      bestScore = score
+      best = { receiver: mate, x: point.x, y: point.y, power: point.power, ticks: point.ticks }
+    }
+  }
+
+  return best
+}
+
+// A ball into the space THROUGH_BALL_LEAD ahead of a teammate further upfield, weighted to
+// die there for them to run on to. Null if nobody is ahead of the passer.
+export function chooseThroughBall(state: GameState, passer: Player, lob: boolean): PassTarget | null {
+  const dir = attackDirection(state, passer.team)
+  let best: PassTarget | null = null
+  let bestScore = Number.POSITIVE_INFINITY
+
+  for (const mate of state.players) {
+    if (mate.id === passer.id || mate.team !== passer.team || mate.sentOff || mate.isGoalkeeper) continue
+    if ((mate.x - passer.x) * dir <= 0) continue
+
+    const point = meetingPoint(state, mate, lob, THROUGH_BALL_ARRIVAL, dir * THROUGH_BALL_LEAD)
+    const risk = countInterceptors(state, passer.team, point.x, point.y, point.ticks, lob)
+    const score = Math.hypot(point.x - passer.x, point.y - passer.y) * (1 + risk * PASS_RISK_WEIGHT)
+
+    if (score < bestScore) {
+      bestScore = score
+      best = { receiver: mate, x: point.x, y: point.y, power: point.power, ticks: point.ticks }
+    }
+  }
+
+  return best
+}
+
+export function findClosestPlayerToBall(state: GameState, team: Team): Player | null {
+  let closest: Player | null = null
+  let minDist = Number.POSITIVE_INFINITY
+
+  state.players.forEach((player) => {
+    if (player.team !== team || player.sentOff) return
+
+    const dx = player.x - state.ball.x
+    const dy = player.y - state.ball.y
+    const dist = Math.sqrt(dx * dx + dy * dy)
+    if (dist < minDist) {
+      minDist = dist
+      closest = player
+    }
+  })
+
+  return closest
+}
+
+// A dribbler can only strike the ball when it is near their feet, not halfway through a touch
+function canKick(state: GameState, player: Player): boolean {
+  const { ball } = state
+  const dist = Math.sqrt((ball.x - player.x) ** 2 + (ball.y - player.y) ** 2)
+  return dist < KICK_RANGE && ball.z < CONTROL_HEIGHT
+}
+
+function releaseBall(state: GameState, player: Player) {
+  player.hasBall = false
+  state.ball.ownerId = null
+  state.ball.isGrabbed = false
+}
+
+// Applies one player's controls. Movement is analogue: |(dx, dy)| above 1 is clamped so
+// diagonals are not faster, and smaller values (used by the AI) move proportionally slower.
+function applyInput(state: GameState, player: Player, input: PlayerInput, events: GameEvent[] = []) {
+  if (player.isSliding || player.diveTimer > 0) return events
+
+  // Handle movement
+  const moving = input.dx !== 0 || input.dy !== 0
+  player.isSprinting = input.sprint && moving && player.stamina > 0
+  if (moving) {
+    const magnitude = Math.sqrt(input.dx * input.dx + input.dy * input.dy)
+    const topSpeed =
+      (player.isSprinting ? SPRINT_SPEED : PLAYER_SPEED) *
+      attributeScale(player.attributes.pace) *
+      staminaFactor(player) *
+      WEATHER_EFFECTS[state.rules.weather].playerSpeed *
+      (inMud(state, player.x, player.y) ? MUD_SPEED : 1)
+    const speed = Math.min(1, magnitude) * topSpeed
+    player.facingX = input.dx / magnitude
+    player.facingY = input.dy / magnitude
+    player.velocityX = player.facingX * speed
+    player.velocityY = player.facingY * speed
+  }
+
+  // A keeper holding the ball punts it with shoot and throws it with pass
+  if (player.hasBall && state.ball.isGrabbed) {
+    if (input.shoot) puntBall(state, player, events)
+    else if (input.pass) throwBall(state, player, events)
+  }
+
+  // Handle shooting
+  if (input.shoot && player.hasBall && canKick(state, player)) {
+    recordOffsideLine(state, player)
+    releaseBall(state, player)
+    const power =
+      (input.lob ? LOB_POWER : SHOOT_MIN_POWER + (SHOOT_POWER - SHOOT_MIN_POWER) * input.charge) *
+      attributeScale(player.attributes.shooting) *
+      staminaFactor(player)
+    state.ball.velocityX = player.facingX * power
+    state.ball.velocityY = player.facingY * power
+    state.ball.velocityZ = input.lob ? LOB_LIFT : 0
+    startAftertouch(state, player)
+    events.push("kick")
+  }
+
+  // Handle passing: pass plays it to a teammate's feet, through into the space ahead of a forward
+  if ((input.pass || input.through) && player.hasBall && canKick(state, player)) {
+    const arrival = PASS_ARRIVAL_SPEED + (PASS_ARRIVAL_CHARGED - PASS_ARRIVAL_SPEED) * input.charge
+    const target =
+      (input.through ? chooseThroughBall(state, player, input.lob) : null) ??
+      choosePassTarget(state, player, input.lob, arrival)
+    if (target) {
+      recordOffsideLine(state, player)
+      releaseBall(state, player)
+      const { ball } = state
+      // Passers rated below average put the ball a little either side of where they meant
+      const error = (random(state) - 0.5) * 2 * PASS_SPREAD * Math.max(0, (50 - player.attributes.passing) / 50)
+      const angle = Math.atan2(target.y - ball.y, target.x - ball.x) + error
+      ball.velocityX = Math.cos(angle) * target.power
+      ball.velocityY = Math.sin(angle) * target.power
+      ball.velocityZ = input.lob ? LOB_LIFT : 0
+      startAftertouch(state, player)
+      events.push("pass")
+    }
+  }
+
+  // The player who just struck the ball can bend it for a moment
+  if (state.ball.aftertouch > 0 && state.ball.kickerId === player.id) {
+    state.ball.spin = Math.max(-1, Math.min(1, input.curve))
+  }
+
+  // A keeper's slide in the box they are defending is a dive along their facing, whatever
+  // the rules say about tackles. Shootout kicks are all taken at the right-hand goal,
+  // whichever end the keeper's side normally defends.
+  const defendingBox = state.shootout
+    ? player.id === state.shootout.keeperId
+    : player.isGoalkeeper && inPenaltyArea(state, player.team, player.x, player.y)
+  if (input.slide && !player.hasBall && defendingBox) {
+    player.diveTimer = DIVE_DURATION
+    player.isSprinting = false
+    events.push("slide")
+  } else if (input.slide && !player.hasBall && state.rules.slideTackles) {
+    player.isSliding = true
+    player.slideTimer = Math.round(SLIDE_DURATION * WEATHER_EFFECTS[state.rules.weather].slideDuration)
+    player.stamina = Math.max(0, player.stamina - SLIDE_STAMINA)
+    player.isSprinting = false
+    events.push("slide")
+  }
+
+  // Handle goalkeeper grab, only inside their own penalty area
+  if (
+    input.grab &&
+    player.isGoalkeeper &&
+    !state.ball.ownerId &&
+    state.ball.releasedBy !== player.id &&
+    state.ball.z < keeperReach(state, player).height &&
+    inPenaltyArea(state, player.team, state.ball.x, state.ball.y)
+  ) {
+    const dx = player.x - state.ball.x
+    const dy = player.y - state.ball.y
+    const dist = Math.sqrt(dx * dx + dy * dy)
+
+    if (dist < GRAB_RANGE * attributeScale(player.attributes.goalkeeping)) {
+      player.hasBall = true
+      state.ball.ownerId = player.id
+      state.ball.isGrabbed = true
+      state.ball.aftertouch = 0
+      state.ball.z = 0
+      state.ball.velocityZ = 0
+      state.ball.lastTouch = player.team
+      state.ball.indirect = false
+      state.offsideLine = null
+      player.grabTimer = GRAB_DURATION
+      events.push("grab")
+    }
+  }
+
+  return events
+}
+
+function startAftertouch(state: GameState, player: Player) {
+  state.ball.kickerId = player.id
+  state.ball.aftertouch = AFTERTOUCH_TICKS
+  state.ball.spin = 0
+}
+
+// Speed that drops a lofted pass at the receiver's feet, allowing for air drag
+function loftedPassPower(dist: number): number {
+  const flightTicks = (2 * LOB_LIFT) / GRAVITY + 1
+  const travel = (1 - Math.pow(AIR_DRAG, flightTicks)) / (1 - AIR_DRAG)
+  return Math.min(SHOOT_POWER, dist / travel)
+}
+
+// Keeper's long, high kick from the hands
+function puntBall(state: GameState, player: Player, events: GameEvent[]) {
+  recordOffsideLine(state, player)
+  releaseBall(state, player)
+  const { ball } = state
+  ball.x = player.x + player.facingX * (PLAYER_SIZE / 2 + BALL_SIZE / 2 + 2)
+  ball.y = player.y + player.facingY * (PLAYER_SIZE / 2 + BALL_SIZE / 2 + 2)
+  ball.velocityX = player.facingX * PUNT_POWER
+  ball.velocityY = player.facingY * PUNT_POWER
+  ball.velocityZ = PUNT_LIFT
+  ball.releasedBy = player.id
+  events.push("kick")
+}
+
+// Keeper's short throw, straight to the nearest teammate
+function throwBall(state: GameState, player: Player, events: GameEvent[]) {
+  const teammate = findNearestTeammate(state.players, player)
+  if (!teammate) return
+
+  recordOffsideLine(state, player)
+  releaseBall(state, player)
+  const { ball } = state
+  const dx = teammate.x - player.x
+  const dy = teammate.y - player.y
+  const dist = Math.sqrt(dx * dx + dy * dy) || 1
+  ball.x = player.x + (dx / dist) * (PLAYER_SIZE / 2 + BALL_SIZE / 2 + 2)
+  ball.y = player.y + (dy / dist) * (PLAYER_SIZE / 2 + BALL_SIZE / 2 + 2)
+  ball.velocityX = (dx / dist) * THROW_POWER
+  ball.velocityY = (dy / dist) * THROW_POWER
+  ball.releasedBy = player.id
+  events.push("pass")
+}
+
+// Keepers who hold on too long have the ball punted for them
+function checkKeeperHold(state: GameState, events: GameEvent[]) {
+  state.players.forEach((player) => {
+    if (player.hasBall && state.ball.isGrabbed && player.grabTimer <= 0) {
+      puntBall(state, player, events)
+    }
+  })
+}
+
+// Sliding players barge through, and nobody shifts a keeper with the ball in their hands
+function playerMass(state: GameState, player: Player): number {
+  if (player.isSliding) return SLIDE_MASS
+  if (player.hasBall && state.ball.isGrabbed) return KEEPER_HOLDING_MASS
+  return PLAYER_MASS
+}
+
+// Players are solid circles. Overlapping pairs are pushed apart in inverse proportion to
+// their mass, and whatever speed they had towards each other is shared out, so a runner
+// who bumps into someone slows down and nudges them along.
+function resolvePlayerCollisions(state: GameState) {
+  const pitch = getPitch(state.rules)
+  const players = state.players.filter((player) => !player.sentOff)
+
+  for (let i = 0; i < players.length; i++) {
+    for (let j = i + 1; j < players.length; j++) {
+      const a = players[i]
+      const b = players[j]
+      const dx = b.x - a.x
+      const dy = b.y - a.y
+      const dist = Math.sqrt(dx * dx + dy * dy)
+      if (dist >= PLAYER_SIZE) continue
+
+      // Players on the exact same spot are split along the pitch
+      const nx = dist > 0 ? dx / dist : 1
+      const ny = dist > 0 ? dy / dist : 0
+      const massA = playerMass(state, a)
+      const massB = playerMass(state, b)
+      const overlap = PLAYER_SIZE - dist
+      a.x -= nx * overlap * (massB / (massA + massB))
+      a.y -= ny * overlap * (massB / (massA + massB))
+      b.x += nx * overlap * (massA / (massA + massB))
+      b.y += ny * overlap * (massA / (massA + massB))
+
+      const closing = (a.velocityX - b.velocityX) * nx + (a.velocityY - b.velocityY) * ny
+      if (closing > 0) {
+        const impulse = closing / (1 / massA + 1 / massB)
+        a.velocityX -= (nx * impulse) / massA
+        a.velocityY -= (ny * impulse) / massA
+        b.velocityX += (nx * impulse) / massB
+        b.velocityY += (ny * impulse) / massB
+      }
+    }
+  }
+
+  players.forEach((player) => {
+    player.x = Math.max(PLAYER_SIZE, Math.min(pitch.width - PLAYER_SIZE, player.x))
+    player.y = Math.max(PLAYER_SIZE, Math.min(pitch.height - PLAYER_SIZE, player.y))
+  })
+}
+
+function updatePlayers(state: GameState) {
+  const pitch = getPitch(state.rules)
+  const { ball } = state
+
+  state.players.forEach((player) => {
+    if (player.sentOff) return
+    if (Math.abs(player.velocityX) > 0.3 || Math.abs(player.velocityY) > 0.3) {
+      player.animFrame += 0.5
+    }
+
+    if (player.isSliding) {
+      player.slideTimer--
+      if (player.slideTimer <= 0) {
+        player.isSliding = false
+      } else {
+        player.x += player.facingX * SLIDE_SPEED
+        player.y += player.facingY * SLIDE_SPEED
+      }
+    }
+
+    if (player.grabTimer > 0) {
+      player.grabTimer--
+    }
+
+    if (player.diveTimer > 0) {
+      if (isDiveFlying(player)) {
+        player.x += player.facingX * DIVE_SPEED
+        player.y += player.facingY * DIVE_SPEED
+      }
+      player.diveTimer--
+    }
+
+    if (player.isSprinting) {
+      player.stamina = Math.max(0, player.stamina - SPRINT_DRAIN)
+    } else if (!player.isSliding) {
+      player.stamina = Math.min(1, player.stamina + STAMINA_RECOVERY)
+    }
+
+    player.x += player.velocityX
+    player.y += player.velocityY
+    player.velocityX *= PLAYER_FRICTION
+    player.velocityY *= PLAYER_FRICTION
+
+    player.x = Math.max(PLAYER_SIZE, Math.min(pitch.width - PLAYER_SIZE, player.x))
+    player.y = Math.max(PLAYER_SIZE, Math.min(pitch.height - PLAYER_SIZE, player.y))
+  })
+
+  resolvePlayerCollisions(state)
+
+  state.players.forEach((player) => {
+    if (player.sentOff) return
+
+    if (player.hasBall && !ball.isGrabbed) dribble(state, player)
+
+    // Keeper holds the ball above their head and may not carry it out of the box
+    if (player.isGoalkeeper && player.hasBall && ball.isGrabbed) {
+      const boxEdge = GOAL_LINE + pitch.penaltyAreaDepth
+      player.x =
+        attackDirection(state, player.team) > 0
+          ? Math.min(player.x, boxEdge)
+          : Math.max(player.x, pitch.width - boxEdge)
+      player.y = Math.max(
+        pitch.height / 2 - pitch.penaltyAreaWidth / 2,
+        Math.min(pitch.height / 2 + pitch.penaltyAreaWidth / 2, player.y),
+      )
+      ball.x = player.x
+      ball.y = player.y - PLAYER_SIZE / 2 - BALL_SIZE
+    }
+  })
+}
+
+// The carrier keeps the ball with touches instead of having it stuck to their feet. Each
+// touch knocks it ahead; the faster they run the further it goes, and touches taken on
+// the turn are less accurate. Standing still traps it. Letting it get too far away gives
+// up possession.
+function dribble(state: GameState, player: Player) {
+  const { ball } = state
+  const dx = ball.x - player.x
+  const dy = ball.y - player.y
+  const dist = Math.sqrt(dx * dx + dy * dy)
+
+  if (dist > LOSE_CONTROL_RANGE) {
+    releaseBall(state, player)
+    return
+  }
+  if (dist >= BALL_REACH || ball.z >= CONTROL_HEIGHT) return
+
+  ball.lastTouch = player.team
+  ball.indirect = false
+
+  const speed = Math.sqrt(player.velocityX ** 2 + player.velocityY ** 2)
+  if (speed < 0.5) {
+    ball.velocityX *= TRAP_DAMPING
+    ball.velocityY *= TRAP_DAMPING
+    return
+  }
+
+  // Wait for the player to catch up with the last touch
+  const ballAhead = ball.velocityX * player.facingX + ball.velocityY * player.facingY
+  if (ballAhead >= speed) return
+
+  const turn = dist > 0 ? (1 - (dx * player.facingX + dy * player.facingY) / dist) / 2 : 0
+  const angle = Math.atan2(player.facingY, player.facingX) + (random(state) - 0.5) * DRIBBLE_TURN_ERROR * turn
+  const power = speed * DRIBBLE_TOUCH * Math.max(1, speed / PLAYER_SPEED)
+  ball.velocityX = Math.cos(angle) * power
+  ball.velocityY = Math.sin(angle) * power
+}
+
+function scoreGoal(state: GameState, team: Team, events: GameEvent[]) {
+  if (state.phase === "penalties") {
+    resolvePenalty(state, true, events)
+    return
+  }
+
+  state.score[team]++
+  state.lastGoalTeam = team
+  state.goalCelebration = GOAL_CELEBRATION_FRAMES
+  events.push("goal")
+}
+
+function updateBall(state: GameState, events: GameEvent[]) {
+  const pitch = getPitch(state.rules)
+  const { ball } = state
+  if (ball.isGrabbed) return
+
+  // Aftertouch bends the ball's path, turning its velocity a little each tick
+  if (ball.aftertouch > 0) {
+    ball.aftertouch--
+    const angle = ball.spin * CURVE_RATE
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    const velocityX = ball.velocityX * cos - ball.velocityY * sin
+    ball.velocityY = ball.velocityX * sin + ball.velocityY * cos
+    ball.velocityX = velocityX
+  }
+
+  // Move in steps no longer than the ball's radius so a fast shot cannot pass through a
+  // post or skip over the goal line between ticks
+  const steps = Math.max(1, Math.ceil(Math.sqrt(ball.velocityX ** 2 + ball.velocityY ** 2) / (BALL_SIZE / 2)))
+  for (let i = 0; i < steps; i++) {
+    const prevX = ball.x
+    const prevY = ball.y
+    ball.x += ball.velocityX / steps
+    ball.y += ball.velocityY / steps
+
+    for (const side of ["left", "right"] as const) {
+      const goal = getGoalFrame(side, pitch)
+      collideGoalFrame(ball, goal, prevX, prevY, events)
+      if (!ballInGoal(ball, goal)) continue
+
+      const leftTeam: Team = state.endsSwapped ? "away" : "home"
+      const overLeft = side === "left"
+      // An indirect free kick straight into the net is a goal kick
+      if (ball.indirect && state.phase === "playing") {
+        const x = overLeft ? GOAL_LINE + 60 : pitch.width - GOAL_LINE - 60
+        awardSetPiece(state, "goalKick", overLeft ? leftTeam : otherTeam(leftTeam), x, pitch.height / 2, events)
+        return
+      }
+      scoreGoal(state, overLeft ? otherTeam(leftTeam) : leftTeam, events)
+      return
+    }
+  }
+
+  // In the air the ball only slows a little; it rolls to a stop on the ground
+  if (ball.z > 0 || ball.velocityZ > 0) {
+    ball.velocityX *= AIR_DRAG
+    ball.velocityY *= AIR_DRAG
+    ball.z += ball.velocityZ
+    ball.velocityZ -= GRAVITY
+    if (ball.z <= 0) {
+      ball.z = 0
+      ball.velocityZ = -ball.velocityZ * BALL_BOUNCE
+      if (ball.velocityZ < 1) ball.velocityZ = 0
+      else events.push("bounce")
+    }
+  } else {
+    const friction = groundFriction(state.rules) - (inMud(state, ball.x, ball.y) ? MUD_FRICTION : 0)
+    ball.velocityX *= friction
+    ball.velocityY *= friction
+  }
+
+  // The wind carries a loose ball along
+  if (!ball.ownerId) {
+    ball.velocityX += state.wind.x
+    ball.velocityY += state.wind.y
+  }
+
+  // Touchlines. A ball that only creeps into a wall, e.g. blown there by the wind, makes no sound.
+  if (state.rules.classicRules && state.phase === "playing" && !state.setPiece && checkOutOfPlay(state, events)) return
+  if (ball.y < BALL_SIZE || ball.y > pitch.height - BALL_SIZE) {
+    if (Math.abs(ball.velocityY) > WALL_NUDGE_SPEED) events.push("bounce")
+    ball.velocityY *= -WALL_BOUNCE
+    ball.y = Math.max(BALL_SIZE, Math.min(pitch.height - BALL_SIZE, ball.y))
+  }
+
+  // Ends of the pitch
+  if (ball.x < BALL_SIZE || ball.x > pitch.width - BALL_SIZE) {
+    if (Math.abs(ball.velocityX) > WALL_NUDGE_SPEED) events.push("bounce")
+    ball.velocityX *= -WALL_BOUNCE
+    ball.x = Math.max(BALL_SIZE, Math.min(pitch.width - BALL_SIZE, ball.x))
+  }
+}
+
+// Bounces the ball off a goal's posts, crossbar and side netting. A ball higher than the
+// frame sails over it.
+function collideGoalFrame(ball: Ball, goal: GoalFrame, prevX: number, prevY: number, events: GameEvent[]) {
+  const radius = BALL_SIZE / 2
+  const inward = goal.backX < goal.lineX ? -1 : 1
+  const inMouth = ball.y > goal.top && ball.y < goal.bottom
+
+  // Crossing the line at bar height knocks it back out
+  const crossed = (prevX - goal.lineX) * inward <= 0 && (ball.x - goal.lineX) * inward > 0
+  if (crossed && inMouth && Math.abs(ball.z - CROSSBAR_HEIGHT) < radius) {
+    ball.x = goal.lineX
+    ball.velocityX *= -POST_BOUNCE
+    ball.velocityZ = ball.z < CROSSBAR_HEIGHT ? -Math.abs(ball.velocityZ) : Math.abs(ball.velocityZ)
+    events.push("post")
+    return
+  }
+  if (ball.z >= CROSSBAR_HEIGHT) return
+
+  for (const postY of [goal.top, goal.bottom]) {
+    const dx = ball.x - goal.lineX
+    const dy = ball.y - postY
+    const dist = Math.sqrt(dx * dx + dy * dy)
+    const minDist = POST_RADIUS + radius
+    if (dist >= minDist || dist === 0) continue
+
+    const nx = dx / dist
+    const ny = dy / dist
+    ball.x = goal.lineX + nx * minDist
+    ball.y = postY + ny * minDist
+    const closing = ball.velocityX * nx + ball.velocityY * ny
+    if (closing < 0) {
+      ball.velocityX -= (1 + POST_BOUNCE) * closing * nx
+      ball.velocityY -= (1 + POST_BOUNCE) * closing * ny
+      events.push("post")
+    }
+  }
+
+  // The side netting runs from each post back to the end of the pitch and soaks up most
+  // of the ball's pace, from inside the goal or out
+  if ((ball.x - goal.lineX) * inward <= 0) return
+  for (const netY of [goal.top, goal.bottom]) {
+    if (Math.abs(ball.y - netY) >= radius) continue
+    ball.y = prevY < netY ? netY - radius : netY + radius
+    ball.velocityX *= NET_BOUNCE
+    ball.velocityY *= -NET_BOUNCE
+  }
+}
+
+// The whole ball has to be over the line, between the posts and under the bar
+function ballInGoal(ball: Ball, goal: GoalFrame): boolean {
+  const inward = goal.backX < goal.lineX ? -1 : 1
+  return (
+    (ball.x - goal.lineX) * inward >= BALL_SIZE / 2 &&
+    ball.y > goal.top &&
+    ball.y < goal.bottom &&
+    ball.z < CROSSBAR_HEIGHT
+  )
+}
+
+function checkBallPickup(state: GameState, events: GameEvent[]) {
+  const { ball } = state
+
+  state.players.forEach((player) => {
+    if (player.hasBall || ball.ownerId || player.sentOff || state.setPiece) return
+
+    // Keepers catch anything they can reach in their own box; everyone else has to bring it down
+    const catching =
+      player.isGoalkeeper && ball.releasedBy !== player.id && inPenaltyArea(state, player.team, ball.x, ball.y)
+    const reach = catching ? keeperReach(state, player) : { height: CONTROL_HEIGHT, range: BALL_REACH }
+    if (ball.z >= reach.height) return
+
+    const dx = player.x - ball.x
+    const dy = player.y - ball.y
+    const dist = Math.sqrt(dx * dx + dy * dy)
+    // A softly struck pass is still in reach of its kicker as it leaves their feet, and one
+    // played across the body runs back past them
+    const sinceStrike = AFTERTOUCH_TICKS - ball.aftertouch
+    const leaving =
+      ball.aftertouch > 0 &&
+      ball.kickerId === player.id &&
+      (sinceStrike < KICK_CLEAR_TICKS || dx * ball.velocityX + dy * ball.velocityY < 0)
+
+    if (dist < reach.range && !leaving) {
+      if (state.offsideLine?.flaggedIds.includes(player.id)) {
+        callOffside(state, player, events)
+        return
+      }
+      state.offsideLine = null
+      player.hasBall = true
+      ball.ownerId = player.id
+      // A diving keeper gathers whatever they get to, and comes down with it
+      ball.isGrabbed = ball.z >= CONTROL_HEIGHT || (catching && player.diveTimer > 0)
+      player.diveTimer = Math.min(player.diveTimer, DIVE_DURATION - DIVE_FLIGHT)
+      ball.aftertouch = 0
+      if (ball.releasedBy !== player.id) ball.releasedBy = null
+      ball.lastTouch = player.team
+      ball.z = 0
+      ball.velocityZ = 0
+      if (ball.isGrabbed) {
+        player.grabTimer = GRAB_DURATION
+        events.push("grab")
+      }
+    }
+  })
+}
+
+// Between touches a dribbled ball is fair game: an opponent who gets a foot to it before
+// the carrier does pokes it away without needing to slide
+function checkPokes(state: GameState, events: GameEvent[]) {
+  const { ball } = state
+  if (!ball.ownerId || ball.isGrabbed || ball.z >= CONTROL_HEIGHT || state.setPiece) return
+
+  const carrier = state.players.find((p) => p.id === ball.ownerId)
+  if (!carrier || Math.sqrt((carrier.x - ball.x) ** 2 + (carrier.y - ball.y) ** 2) < BALL_REACH) return
+
+  for (const player of state.players) {
+    if (player.team === carrier.team || player.sentOff || player.isSliding) continue
+    if (Math.sqrt((player.x - ball.x) ** 2 + (player.y - ball.y) ** 2) >= tackleReach(player)) continue
+
+    if (state.offsideLine?.flaggedIds.includes(player.id)) {
+      callOffside(state, player, events)
+      return
+    }
+    releaseBall(state, carrier)
+    state.offsideLine = null
+    ball.velocityX = player.facingX * POKE_POWER
+    ball.velocityY = player.facingY * POKE_POWER
+    ball.lastTouch = player.team
+    ball.aftertouch = 0
+    ball.releasedBy = null
+    events.push("poke")
+    return
+  }
+}
+
+// A ball dropping onto a player at head height is headed on in the direction they face
+function checkHeaders(state: GameState, events: GameEvent[]) {
+  const { ball } = state
+  if (ball.ownerId || state.setPiece || ball.velocityZ > 0) return
+  if (ball.z < CONTROL_HEIGHT || ball.z > HEAD_HEIGHT) return
+
+  for (const player of state.players) {
+    if (player.sentOff || player.isSliding) continue
+    const dist = Math.sqrt((player.x - ball.x) ** 2 + (player.y - ball.y) ** 2)
+    if (dist >= PLAYER_SIZE / 2) continue
+
+    if (state.offsideLine?.flaggedIds.includes(player.id)) {
+      callOffside(state, player, events)
+      return
+    }
+    state.offsideLine = null
+    recordOffsideLine(state, player)
+    ball.velocityX = player.facingX * HEADER_POWER
+    ball.velocityY = player.facingY * HEADER_POWER
+    ball.velocityZ = HEADER_LIFT
+    ball.aftertouch = 0
+    ball.releasedBy = null
+    ball.lastTouch = player.team
+    ball.indirect = false
+    events.push("header")
+    return
+  }
+}
+
+// Tackles use the same solid bodies as everything else. A slide that gets to the ball
+// before the carrier's body wins it and ends the slide; one that meets the body first,
+// because the carrier is shielding it or has no ball at all, is a foul.
+function checkSlideTackles(state: GameState, events: GameEvent[]) {
+  for (const slidingPlayer of state.players) {
+    if (!slidingPlayer.isSliding || slidingPlayer.sentOff) continue
+
+    for (const targetPlayer of state.players) {
+      if (targetPlayer.team === slidingPlayer.team || targetPlayer.sentOff) continue
+
+      const dx = slidingPlayer.x - targetPlayer.x
+      const dy = slidingPlayer.y - targetPlayer.y
+      const dist = Math.sqrt(dx * dx + dy * dy) || 1
+      const fromBehind = (dx * targetPlayer.facingX + dy * targetPlayer.facingY) / dist < -0.5
+      const ballDist = Math.sqrt((slidingPlayer.x - state.ball.x) ** 2 + (slidingPlayer.y - state.ball.y) ** 2)
+
+      // A keeper holding the ball cannot be tackled; going in on them is a foul
+      const canWinBall = targetPlayer.hasBall && !state.ball.isGrabbed
+      const shielded = dist < ballDist
+      if (canWinBall && !shielded && ballDist < tackleReach(slidingPlayer)) {
+        releaseBall(state, targetPlayer)
+        state.ball.lastTouch = slidingPlayer.team
+        state.ball.releasedBy = null
+        state.offsideLine = null
+        state.ball.velocityX = (random(state) - 0.5) * 6
+        state.ball.velocityY = (random(state) - 0.5) * 6
+        slidingPlayer.isSliding = false
+        events.push("tackle")
+        break
+      }
+
+      if (dist < FOUL_RANGE) {
+        commitFoul(state, slidingPlayer, targetPlayer, fromBehind, events)
+        return
+      }
+    }
+  }
+}
+
+// Fouls from behind are a booking, or a straight red when nowhere near the ball. The
+// restart is a penalty if the foul was in the offender's own box, otherwise a free kick
+// where it happened.
+function commitFoul(state: GameState, offender: Player, victim: Player, fromBehind: boolean, events: GameEvent[]) {
+  const pitch = getPitch(state.rules)
+  const { ball } = state
+  const nearBall = victim.hasBall || Math.sqrt((victim.x - ball.x) ** 2 + (victim.y - ball.y) ** 2) < 100
+  offender.isSliding = false
+  events.push("foul")
+
+  let card: Card | null = null
+  if (fromBehind) {
+    card = !nearBall || offender.yellowCards > 0 ? "red" : "yellow"
+    if (nearBall) offender.yellowCards++
+    events.push("card")
+  }
+
+  if (inPenaltyArea(state, offender.team, victim.x, victim.y)) {
+    const spotX = attackDirection(state, victim.team) > 0 ? pitch.width - PENALTY_SPOT_DISTANCE : PENALTY_SPOT_DISTANCE
+    awardSetPiece(state, "penalty", victim.team, spotX, pitch.height / 2, events)
+  } else {
+    const x = Math.max(GOAL_LINE + BALL_SIZE, Math.min(pitch.width - GOAL_LINE - BALL_SIZE, victim.x))
+    const y = Math.max(TOUCHLINE + BALL_SIZE, Math.min(pitch.height - TOUCHLINE - BALL_SIZE, victim.y))
+    awardSetPiece(state, "freeKick", victim.team, x, y, events)
+  }
+
+  const setPiece = state.setPiece!
+  setPiece.countdown = FOUL_SETUP_FRAMES
+  setPiece.card = card
+  setPiece.cardPlayerId = card ? offender.id : null
+  if (card === "red") sendOff(state, offender)
+}
+
+// Takes a player off for the rest of the match. A sent-off keeper is replaced in goal by
+// the first teammate still on the pitch.
+function sendOff(state: GameState, player: Player) {
+  const pitch = getPitch(state.rules)
+  player.sentOff = true
+  player.hasBall = false
+  player.isSliding = false
+  player.diveTimer = 0
+  player.velocityX = 0
+  player.velocityY = 0
+  player.x = pitch.width / 2
+  player.y = -PLAYER_SIZE * 2
+
+  if (player.isGoalkeeper) {
+    player.isGoalkeeper = false
+    const standIn = state.players.find((p) => p.team === player.team && !p.sentOff)
+    if (standIn) standIn.isGoalkeeper = true
+  }
+}
+
+function finishMatch(state: GameState, events: GameEvent[]) {
+  state.phase = "finished"
+  state.isPlaying = false
+  events.push("whistle")
+}
+
+function stopPlay(state: GameState) {
+  state.kickoff = null
+  state.setPiece = null
+  state.offsideLine = null
+  state.ball.ownerId = null
+  state.ball.isGrabbed = false
+  state.players.forEach((player) => {
+    player.hasBall = false
+    player.isSliding = false
+    player.diveTimer = 0
+  })
+}
+
+function endHalf(state: GameState, events: GameEvent[]) {
+  stopPlay(state)
+
+  const { halves, tiebreak } = state.rules
+  const isLevel = state.score.home === state.score.away
+  const hasExtraTime = tiebreak === "extraTime" || tiebreak === "goldenGoal"
+  // Whether extra time is needed is settled at the end of normal time; once it has started
+  // both periods are played whatever the score
+  const playsExtraTime = isExtraTime(state) || (isLevel && hasExtraTime)
+  const lastPeriod = halves + (playsExtraTime ? EXTRA_PERIODS : 0)
+
+  if (state.half < lastPeriod) {
+    state.phase = "halftime"
+    state.phaseTimer = HALFTIME_FRAMES
+    events.push("whistle")
+  } else if (isLevel && tiebreak !== "none") {
+    startShootout(state, events)
+  } else {
+    finishMatch(state, events)
+  }
+}
+
+function startNextHalf(state: GameState, events: GameEvent[]) {
+  state.half++
+  state.halfTicks = 0
+  state.gameTime = getPeriodLength(state)
+  state.endsSwapped = !state.endsSwapped
+  state.phase = "playing"
+  // The break is a chance to get their breath back
+  state.players.forEach((player) => (player.stamina = 1))
+  // Home kicks off the odd periods, away the even ones
+  resetPositions(state, state.half % 2 === 1 ? "home" : "away")
+}
+
+// Seconds of playing time in the current period
+export function getPeriodLength(state: GameRoom): number {
+  return isExtraTime(state) ? state.rules.extraTimeLength : state.rules.halfLength
+}
+
+// ===== KICKOFF =====
+
+// Ends the countdown: the kicking team's outfield player nearest the spot (or anyone,
+// if the side is only a keeper) stands over the ball and the referee whistles.
+function takeKickoff(state: GameState, events: GameEvent[]) {
+  const pitch = getPitch(state.rules)
+  const kickoff = state.kickoff!
+  events.push("whistle")
+
+  let taker: Player | null = null
+  let minDist = Number.POSITIVE_INFINITY
+  for (const player of state.players) {
+    if (player.team !== kickoff.team || player.sentOff) continue
+    const dist = Math.sqrt((player.x - pitch.width / 2) ** 2 + (player.y - pitch.height / 2) ** 2)
+    const adjustedDist = player.isGoalkeeper ? dist + pitch.width : dist
+    if (adjustedDist < minDist) {
+      minDist = adjustedDist
+      taker = player
+    }
+  }
+
+  if (!taker) {
+    state.kickoff = null
+    return
+  }
+
+  const dir = attackDirection(state, kickoff.team)
+  taker.x = pitch.width / 2 - dir * (PLAYER_SIZE / 2 + BALL_SIZE / 2 + 2)
+  taker.y = pitch.height / 2
+  taker.velocityX = 0
+  taker.velocityY = 0
+  taker.facingX = dir
+  taker.facingY = 0
+  taker.hasBall = true
+  state.ball.ownerId = taker.id
+  kickoff.takerId = taker.id
+}
+
+// Until the taker plays the ball, everyone else stays in their own half and outside the
+// centre circle
+function enforceKickoff(state: GameState) {
+  const pitch = getPitch(state.rules)
+  const kickoff = state.kickoff!
+  const { ball } = state
+  const centerX = pitch.width / 2
+  const centerY = pitch.height / 2
+
+  if (ball.ownerId !== kickoff.takerId || Math.abs(ball.x - centerX) > 1 || Math.abs(ball.y - centerY) > 1) {
+    state.kickoff = null
+    return
+  }
+
+  const minDist = pitch.centerCircleRadius + PLAYER_SIZE / 2
+  state.players.forEach((player) => {
+    if (player.id === kickoff.takerId || player.sentOff) return
+
+    if (attackDirection(state, player.team) > 0) {
+      player.x = Math.min(player.x, centerX - PLAYER_SIZE / 2)
+    } else {
+      player.x = Math.max(player.x, centerX + PLAYER_SIZE / 2)
+    }
+
+    const dx = player.x - centerX
+    const dy = player.y - centerY
+    const dist = Math.sqrt(dx * dx + dy * dy)
+    if (dist < minDist) {
+      player.x = centerX + (dx / dist) * minDist
+      player.y = centerY + (dy / dist) * minDist
+    }
+  })
+}
+
+// ===== SET PIECES =====
+
+// Under classic rules, awards a throw-in, corner or goal kick once the ball is over a
+// touchline or over a goal line outside the goal. Returns true if play was stopped.
+function checkOutOfPlay(state: GameState, events: GameEvent[]): boolean {
+  const pitch = getPitch(state.rules)
+  const { ball } = state
+  const attackingTeam = otherTeam(ball.lastTouch ?? "home")
+
+  if (ball.y < TOUCHLINE || ball.y > pitch.height - TOUCHLINE) {
+    const x = Math.max(GOAL_LINE + BALL_SIZE, Math.min(pitch.width - GOAL_LINE - BALL_SIZE, ball.x))
+    const y = ball.y < TOUCHLINE ? TOUCHLINE : pitch.height - TOUCHLINE
+    awardSetPiece(state, "throwIn", attackingTeam, x, y, events)
+    return true
+  }
+
+  // Like a goal, the whole ball has to be over the line
+  const overLeft = ball.x < GOAL_LINE - BALL_SIZE / 2
+  const goal = getGoalFrame(overLeft ? "left" : "right", pitch)
+  const inGoalMouth = ball.y > goal.top && ball.y < goal.bottom && ball.z < CROSSBAR_HEIGHT
+  if ((!overLeft && ball.x <= pitch.width - GOAL_LINE + BALL_SIZE / 2) || inGoalMouth) return false
+
+  // Defenders who put it behind concede a corner; otherwise it is their goal kick
+  const defendingTeam: Team = overLeft !== state.endsSwapped ? "home" : "away"
+  const top = ball.y < pitch.height / 2
+  if (ball.lastTouch === defendingTeam) {
+    const x = overLeft ? GOAL_LINE + BALL_SIZE : pitch.width - GOAL_LINE - BALL_SIZE
+    const y = top ? TOUCHLINE + BALL_SIZE : pitch.height - TOUCHLINE - BALL_SIZE
+    awardSetPiece(state, "corner", otherTeam(defendingTeam), x, y, events)
+  } else {
+    const x = overLeft ? GOAL_LINE + 60 : pitch.width - GOAL_LINE - 60
+    const y = top ? goal.top : goal.bottom
+    awardSetPiece(state, "goalKick", defendingTeam, x, y, events)
+  }
+  return true
+}
+
+function awardSetPiece(state: GameState, type: SetPieceType, team: Team, x: number, y: number, events: GameEvent[]) {
+  state.players.forEach((player) => {
+    player.hasBall = false
+    player.isSliding = false
+    player.diveTimer = 0
+    player.isSprinting = false
+    player.velocityX = 0
+    player.velocityY = 0
+  })
+  state.ball = { ...createInitialBall(getPitch(state.rules)), x, y, lastTouch: state.ball.lastTouch }
+  state.offsideLine = null
+  state.setPiece = {
+    type,
+    team,
+    x,
+    y,
+    countdown: SET_PIECE_SETUP_FRAMES,
+    timer: SET_PIECE_TIME,
+    takerId: null,
+    card: null,
+    cardPlayerId: null,
+    offsideX: null,
+  }
+  events.push("whistle")
+}
+
+// Ends the setup pause: the keeper takes goal kicks, otherwise the nearest outfield
+// player walks over. The taker stands behind the ball facing into the pitch.
+function placeSetPieceTaker(state: GameState) {
+  const pitch = getPitch(state.rules)
+  const setPiece = state.setPiece!
+  const { ball } = state
+
+  let taker: Player | null = null
+  let minDist = Number.POSITIVE_INFINITY
+  for (const player of state.players) {
+    if (player.team !== setPiece.team || player.sentOff) continue
+    const dist = Math.sqrt((player.x - setPiece.x) ** 2 + (player.y - setPiece.y) ** 2)
+    const prefer = setPiece.type === "goalKick" ? player.isGoalkeeper : !player.isGoalkeeper
+    const adjustedDist = prefer ? dist : dist + pitch.width
+    if (adjustedDist < minDist) {
+      minDist = adjustedDist
+      taker = player
+    }
+  }
+
+  if (!taker) {
+    state.setPiece = null
+    return
+  }
+
+  // Aim at the goal mouth from a corner, upfield from a goal kick, infield for a throw-in
+  // and at goal for free kicks and penalties
+  const dir = attackDirection(state, setPiece.team)
+  let aimX = dir > 0 ? pitch.width : 0
+  let aimY = pitch.height / 2
+  if (setPiece.type === "corner") {
+    aimX = setPiece.x < pitch.width / 2 ? GOAL_LINE + 80 : pitch.width - GOAL_LINE - 80
+  } else if (setPiece.type === "goalKick") {
+    aimX = setPiece.x + dir * 200
+    aimY = setPiece.y
+  } else if (setPiece.type === "throwIn") {
+    aimX = setPiece.x
+  }
+  const dx = aimX - setPiece.x
+  const dy = aimY - setPiece.y
+  const dist = Math.sqrt(dx * dx + dy * dy) || 1
+
+  taker.facingX = dx / dist
+  taker.facingY = dy / dist
+  taker.x = Math.max(PLAYER_SIZE, Math.min(pitch.width - PLAYER_SIZE, setPiece.x - taker.facingX * 20))
+  taker.y = Math.max(PLAYER_SIZE, Math.min(pitch.height - PLAYER_SIZE, setPiece.y - taker.facingY * 20))
+  taker.velocityX = 0
+  taker.velocityY = 0
+  taker.hasBall = true
+  ball.ownerId = taker.id
+  ball.lastTouch = taker.team
+  setPiece.takerId = taker.id
+
+  // The keeper faces a penalty from the middle of the goal line
+  const keeper = state.players.find((p) => p.team !== setPiece.team && p.isGoalkeeper && !p.sentOff)
+  if (setPiece.type === "penalty" && keeper) {
+    keeper.x = dir > 0 ? pitch.width - GOAL_LINE - PLAYER_SIZE / 2 : GOAL_LINE + PLAYER_SIZE / 2
+    keeper.y = pitch.height / 2
+    keeper.velocityX = 0
+    keeper.velocityY = 0
+  }
+}
+
+// Unit vector for a throw from the touchline at `lineY`, turned at least 30 degrees
+// into the pitch
+function throwInDirection(x: number, y: number, lineY: number, pitch: Pitch): { x: number; y: number } {
+  const length = Math.sqrt(x * x + y * y) || 1
+  const inward = lineY < pitch.height / 2 ? 1 : -1
+  if ((y / length) * inward >= 0.5) return { x: x / length, y: y / length }
+  return { x: (x < 0 ? -1 : 1) * Math.sqrt(0.75), y: inward * 0.5 }
+}
+
+// Runs after inputs are applied: the taker may turn but not walk, and takes the kick
+// automatically when time runs out.
+function holdSetPieceTaker(state: GameState, events: GameEvent[]) {
+  const setPiece = state.setPiece!
+  const { ball } = state
+  const pitch = getPitch(state.rules)
+  const taker = state.players.find((p) => p.id === setPiece.takerId)
+  if (!taker) {
+    state.setPiece = null
+    return
+  }
+
+  if (setPiece.type === "throwIn") {
+    const facing = throwInDirection(taker.facingX, taker.facingY, setPiece.y, pitch)
+    taker.facingX = facing.x
+    taker.facingY = facing.y
+  }
+
+  setPiece.timer--
+  if (ball.ownerId === taker.id && setPiece.timer <= 0) {
+    applyInput(state, taker, { ...EMPTY_INPUT, shoot: true, charge: 1 }, events)
+  }
+  taker.velocityX = 0
+  taker.velocityY = 0
+
+  if (ball.ownerId !== taker.id) {
+    // Throws go back into the pitch and not as hard as a kick
+    if (setPiece.type === "throwIn") {
+      const speed = Math.min(THROW_POWER, Math.sqrt(ball.velocityX ** 2 + ball.velocityY ** 2))
+      const direction = throwInDirection(ball.velocityX, ball.velocityY, setPiece.y, pitch)
+      ball.velocityX = direction.x * speed
+      ball.velocityY = direction.y * speed
+      ball.velocityZ = 0
+    }
+    // There is no offside straight from these restarts
+    if (setPiece.type === "throwIn" || setPiece.type === "corner" || setPiece.type === "goalKick") {
+      state.offsideLine = null
+    }
+    ball.indirect = setPiece.type === "indirectFreeKick"
+    state.setPiece = null
+  }
+}
+
+// Opponents stand off until the set piece is taken. For a penalty everyone but the
+// taker waits outside the box and the keeper stays on the line.
+function enforceSetPiece(state: GameState) {
+  const pitch = getPitch(state.rules)
+  const setPiece = state.setPiece!
+  const { ball } = state
+  const dir = attackDirection(state, setPiece.team)
+  const goalLineX = dir > 0 ? pitch.width - GOAL_LINE : GOAL_LINE
+
+  state.players.forEach((player) => {
+    if (player.id === setPiece.takerId || player.sentOff) return
+
+    if (setPiece.type === "penalty") {
+      if (player.isGoalkeeper && player.team !== setPiece.team) {
+        const lineLimit = goalLineX - dir * PLAYER_SIZE
+        player.x = dir > 0 ? Math.max(player.x, lineLimit) : Math.min(player.x, lineLimit)
+      } else {
+        const boxLimit = goalLineX - dir * (pitch.penaltyAreaDepth + PLAYER_SIZE / 2)
+        player.x = dir > 0 ? Math.min(player.x, boxLimit) : Math.max(player.x, boxLimit)
+      }
+      return
+    }
+
+    if (player.team === setPiece.team) return
+    const dx = player.x - ball.x
+    const dy = player.y - ball.y
+    const dist = Math.sqrt(dx * dx + dy * dy)
+    if (dist < SET_PIECE_DISTANCE && dist > 0) {
+      player.x = Math.max(PLAYER_SIZE, Math.min(pitch.width - PLAYER_SIZE, ball.x + (dx / dist) * SET_PIECE_DISTANCE))
+      player.y = Math.max(PLAYER_SIZE, Math.min(pitch.height - PLAYER_SIZE, ball.y + (dy / dist) * SET_PIECE_DISTANCE))
+    }
+  })
+}
+
+// ===== OFFSIDE =====
+
+function recordOffsideLine(state: GameState, player: Player) {
+  const pitch = getPitch(state.rules)
+  if (!state.rules.offside || state.phase !== "playing") return
+
+  const dir = attackDirection(state, player.team)
+  const defenders = state.players
+    .filter((p) => p.team !== player.team && !p.sentOff)
+    .map((p) => p.x)
+    .sort((a, b) => (b - a) * dir)
+
+  // With fewer than two defenders on the pitch nobody can be offside
+  if (defenders.length < 2) {
+    state.offsideLine = null
+    return
+  }
+
+  const x = defenders[1]
+  const { ball } = state
+  const flaggedIds = state.players
+    .filter(
+      (p) =>
+        p.team === player.team &&
+        p.id !== player.id &&
+        !p.sentOff &&
+        (p.x - pitch.width / 2) * dir > 0 &&
+        (p.x - x) * dir > 2 &&
+        (p.x - ball.x) * dir > 2,
+    )
+    .map((p) => p.id)
+
+  state.offsideLine = flaggedIds.length > 0 ? { team: player.team, x, flaggedIds } : null
+}
+
+// Indirect free kick to the defenders from where the offside player received the ball
+function callOffside(state: GameState, player: Player, events: GameEvent[]) {
+  const pitch = getPitch(state.rules)
+  const lineX = state.offsideLine!.x
+  const x = Math.max(GOAL_LINE + BALL_SIZE, Math.min(pitch.width - GOAL_LINE - BALL_SIZE, player.x))
+  const y = Math.max(TOUCHLINE + BALL_SIZE, Math.min(pitch.height - TOUCHLINE - BALL_SIZE, player.y))
+  awardSetPiece(state, "indirectFreeKick", otherTeam(player.team), x, y, events)
+  state.setPiece!.offsideX = lineX
+}
+
+// ===== PENALTY SHOOTOUT =====
+// Every kick is taken at the right-hand goal. Kickers cycle through each team's
+// outfield players before the keeper steps up; the opposing goalkeeper defends.
+
+function pickKicker(state: GameState, team: Team): Player | null {
+  const teamPlayers = state.players.filter((p) => p.team === team && !p.sentOff)
+  if (teamPlayers.length === 0) return null
+
+  const order = [...teamPlayers.filter((p) => !p.isGoalkeeper), ...teamPlayers.filter((p) => p.isGoalkeeper)]
+  return order[state.shootout!.kicks[team].length % order.length]
+}
+
+function pickKeeper(state: GameState, team: Team): Player | null {
+  const teamPlayers = state.players.filter((p) => p.team === team && !p.sentOff)
+  return teamPlayers.find((p) => p.isGoalkeeper) ?? teamPlayers[0] ?? null
+}
+
+function setupPenalty(state: GameState) {
+  const pitch = getPitch(state.rules)
+  const shootout = state.shootout!
+  const kicker = pickKicker(state, shootout.kickingTeam)
+  const keeper = pickKeeper(state, otherTeam(shootout.kickingTeam))
+
+  shootout.kickerId = kicker?.id ?? null
+  shootout.keeperId = keeper?.id ?? null
+  shootout.stage = "ready"
+  state.phaseTimer = PENALTY_READY_FRAMES
+  state.ball = createInitialBall(pitch)
+  state.ball.x = pitch.width - PENALTY_SPOT_DISTANCE
+  state.gameTime = 0
+
+  // Everyone else waits along the halfway line
+  let waiting = 0
+  state.players.forEach((player) => {
+    player.hasBall = false
+    player.isSliding = false
+    player.diveTimer = 0
+    player.isSprinting = false
+    player.velocityX = 0
+    player.velocityY = 0
+    player.facingX = 1
+    player.facingY = 0
+
+    if (player === kicker) {
+      player.x = pitch.width - PENALTY_SPOT_DISTANCE - (PLAYER_SIZE / 2 + BALL_SIZE / 2 + 2)
+      player.y = pitch.height / 2
+      player.hasBall = true
+      state.ball.ownerId = player.id
+    } else if (player === keeper) {
+      player.x = pitch.width - GOAL_LINE - PLAYER_SIZE / 2
+      player.y = pitch.height / 2
+      player.facingX = -1
+    } else if (!player.sentOff) {
+      const row = waiting++
+      player.x = pitch.width / 2 + (row % 2 === 0 ? -1 : 1) * (20 + Math.floor(row / 2) * 30)
+      player.y = pitch.height / 2 + 80
+    }
+  })
+}
+
+function startShootout(state: GameState, events: GameEvent[]) {
+  state.phase = "penalties"
+  state.shootout = {
+    kicks: { home: [], away: [] },
+    kickingTeam: "home",
+    kickerId: null,
+    keeperId: null,
+    stage: "ready",
+  }
+  setupPenalty(state)
+  events.push("whistle")
+}
+
+function resolvePenalty(state: GameState, scored: boolean, events: GameEvent[]) {
+  const shootout = state.shootout!
+  shootout.kicks[shootout.kickingTeam].push(scored)
+  shootout.stage = "result"
+  state.phaseTimer = PENALTY_RESULT_FRAMES
+  stopPlay(state)
+  state.ball.velocityX = 0
+  state.ball.velocityY = 0
+  events.push(scored ? "goal" : "miss")
+}
+
+function nextPenalty(state: GameState, events: GameEvent[]) {
+  const shootout = state.shootout!
+  if (getShootoutWinner(shootout)) {
+    finishMatch(state, events)
+    return
+  }
+
+  // Home kicks first in every round
+  shootout.kickingTeam = shootout.kicks.home.length > shootout.kicks.away.length ? "away" : "home"
+  setupPenalty(state)
+}
+
+function stepShootout(state: GameState, inputs: Record<string, PlayerInput>, events: GameEvent[]) {
+  const pitch = getPitch(state.rules)
+  const shootout = state.shootout!
+  const { ball } = state
+
+  if (shootout.stage === "ready") {
+    state.phaseTimer--
+    if (state.phaseTimer <= 0) {
+      // A side with nobody left to kick forfeits the attempt
+      if (!shootout.kickerId) {
+        resolvePenalty(state, false, events)
+        return
+      }
+      shootout.stage = "aiming"
+      state.phaseTimer = PENALTY_AIM_FRAMES
+      events.push("whistle")
+    }
+    return
+  }
+
+  if (shootout.stage === "result") {
+    state.phaseTimer--
+    if (state.phaseTimer <= 0) nextPenalty(state, events)
+    return
+  }
+
+  const kicker = state.players.find((p) => p.id === shootout.kickerId)
+  const keeper = state.players.find((p) => p.id === shootout.keeperId)
+
+  // Only the kicker and the keeper take part; the kicker is done once the ball is struck
+  if (kicker && shootout.stage === "aiming" && inputs[kicker.id]) {
+    applyInput(state, kicker, { ...inputs[kicker.id], pass: false, slide: false }, events)
+  }
+  // The spot is inside normal grab range, so saves need body contact or a dive instead
+  if (keeper && inputs[keeper.id]) {
+    applyInput(state, keeper, { ...inputs[keeper.id], pass: false, grab: false }, events)
+  }
+
+  if (shootout.stage === "aiming" && kicker) {
+    // The kicker stays planted and only turns to aim
+    kicker.velocityX = 0
+    kicker.velocityY = 0
+
+    state.phaseTimer--
+    if (kicker.hasBall && state.phaseTimer <= 0) {
+      applyInput(state, kicker, { ...EMPTY_INPUT, shoot: true, charge: 1 }, events)
+    }
+    if (!kicker.hasBall) {
+      shootout.stage = "taken"
+      state.phaseTimer = PENALTY_FLIGHT_FRAMES
+    }
+  }
+
+  updatePlayers(state)
+
+  // Keepers may not come off their line before the kick
+  if (keeper && shootout.stage === "aiming") {
+    keeper.x = Math.max(pitch.width - GOAL_LINE - PLAYER_SIZE, keeper.x)
+  }
+
+  updateBall(state, events)
+  if (shootout.stage !== "taken") return
+
+  // A keeper who gets to the ball has saved it
+  if (keeper && !ball.ownerId && ball.z < keeperReach(state, keeper).height) {
+    const dist = Math.sqrt((keeper.x - ball.x) ** 2 + (keeper.y - ball.y) ** 2)
+    if (dist < keeperReach(state, keeper).range) {
+      keeper.hasBall = true
+      ball.ownerId = keeper.id
+    }
+  }
+
+  state.phaseTimer--
+  const ballSpeed = Math.sqrt(ball.velocityX ** 2 + ball.velocityY ** 2)
+  const saved = keeper?.hasBall ?? false
+  const wentBack = ball.x < pitch.width - PENALTY_SPOT_DISTANCE - 60
+  if (saved || wentBack || ballSpeed < 0.3 || state.phaseTimer <= 0) {
+    resolvePenalty(state, false, events)
+  }
+}
+
+// Advances the match by exactly one tick (1 / TICK_RATE seconds). `inputs` is keyed by
+// player id; players without an entry keep coasting on their current velocity. Returns
+// the events raised this tick.
+export function step(state: GameState, inputs: Record<string, PlayerInput> = {}): GameEvent[] {
+  const events: GameEvent[] = []
+  if (!state.isPlaying) return events
+
+  state.tick++
+
+  // Handle goal celebration
+  if (state.goalCelebration > 0) {
+    state.goalCelebration--
+    if (state.goalCelebration === 0) {
+      // A golden goal ends the match on the spot
+      if (isExtraTime(state) && state.rules.tiebreak === "goldenGoal") {
+        finishMatch(state, events)
+      } else {
+        resetPositions(state, otherTeam(state.lastGoalTeam!))
+      }
+    }
+    return events
+  }
+
+  if (state.phase === "penalties") {
+    stepShootout(state, inputs, events)
+    return events
+  }
+
+  if (state.phase === "halftime") {
+    state.phaseTimer--
+    if (state.phaseTimer <= 0) startNextHalf(state, events)
+    return events
+  }
+
+  // Players wait in position while the kickoff counts down
+  if (state.kickoff && state.kickoff.countdown > 0) {
+    state.kickoff.countdown--
+    if (state.kickoff.countdown === 0) takeKickoff(state, events)
+    return events
+  }
+
+  if (state.setPiece && state.setPiece.countdown > 0) {
+    state.setPiece.countdown--
+    if (state.setPiece.countdown === 0) placeSetPieceTaker(state)
+    return events
+  }
+
+  // The clock only runs while the ball is in play
+  state.halfTicks++
+  const periodLength = getPeriodLength(state)
+  state.gameTime = Math.max(0, periodLength - Math.floor(state.halfTicks / TICK_RATE))
+  if (state.halfTicks >= periodLength * TICK_RATE) {
+    endHalf(state, events)
+    return events
+  }
+
+  state.players.forEach((player) => {
+    const input = inputs[player.id]
+    if (input && !player.sentOff) applyInput(state, player, input, events)
+  })
+
+  if (state.setPiece) holdSetPieceTaker(state, events)
+  checkKeeperHold(state, events)
+
+  updatePlayers(state)
+  if (state.kickoff) enforceKickoff(state)
+  if (state.setPiece) enforceSetPiece(state)
+
+  updateBall(state, events)
+  if (state.goalCelebration > 0) return events
+
+  checkBallPickup(state, events)
+  checkPokes(state, events)
+  checkHeaders(state, events)
+  checkSlideTackles(state, events)
+
+  return events
+}
@@ -1,4 +1,24 @@
 import { Redis } from "@upstash/redis"
+import {
+  DEFAULT_RULES,
+  TICK_RATE,
+  consumeTicks,
+  createGameRoom,
+  createSeed,
+  heldInputs,
+  parseRoomRules,
+  resetPositions,
+  step,
+  type GameRoom,
+  type GameState,
+  type Player,
+  type PlayerInput,
+  type RoomRules,
+  type Team,
+} from "@/lib/game-engine"
+import { withAIInputs } from "@/lib/game-ai"
+import { findSwitchTarget } from "@/lib/player-control"
+import { DEFAULT_SQUADS, createSquadPlayer, squadSlots } from "@/lib/squads"
 
 const redis = new Redis({
   url: process.env.KV_REST_API_URL!,
@@ -9,119 +29,56 @@ const redis = new Redis({
 const ROOM_KEY = "soccer:room:"
 const ROOM_LIST_KEY = "soccer:rooms"
 const ROOM_PLAYERS_KEY = "soccer:room:players:"
+const ROOM_CONTROLLERS_KEY = "soccer:room:controllers:"
+const ROOM_INPUTS_KEY = "soccer:room:inputs:"
+const ROOM_SEEN_KEY = "soccer:room:seen:"
+
+// Every slot on both sides is filled from the squads when a room is created and played by
+// the computer until someone takes it over
+interface StoredPlayer extends Player {
+  slot: number // place in the squad, keeper first
+}
 
-interface Player {
-  id: string
+// The client playing a stored player. Controllers, the clients' latest inputs and when each
+// client was last heard from are kept in hashes of their own, so a tick saving the players
+// cannot undo a join, switch or leave that happened while it ran.
+interface Controller {
+  clientId: string
   name: string
-  x: number
-  y: number
-  team: "home" | "away"
-  isGoalkeeper: boolean
-  hasBall: boolean
-  isSliding: boolean
-  slideTimer: number
-  grabTimer: number
-  velocityX: number
-  velocityY: number
-  facingX: number
-  facingY: number
-  lastUpdate: number
-  animFrame: number
 }
 
-interface Ball {
-  x: number
-  y: number
-  velocityX: number
-  velocityY: number
-  ownerId: string | null
-  isGrabbed: boolean
+// A stored player together with whoever is playing them, null while it is a bot
+interface RoomPlayer extends StoredPlayer {
+  controller: Controller | null
 }
 
-interface GameRoom {
+interface StoredRoom extends GameRoom {
   id: string
   name: string
-  ball: Ball
-  score: { home: number; away: number }
-  gameTime: number
-  isPlaying: boolean
-  lastGoalTeam: "home" | "away" | null
-  goalCelebration: number
+  squads: Record<Team, string> // squad id each side's players are drawn from
   lastTick: number
   createdAt: number
 }
 
-// Game constants
-export const FIELD_WIDTH = 800
-export const FIELD_HEIGHT = 500
-export const GOAL_HEIGHT = 150
-export const PLAYER_SIZE = 24
-export const BALL_SIZE = 12
-export const PLAYER_SPEED = 3.5
-export const BALL_FRICTION = 0.98
-export const SHOOT_POWER = 14
-export const PASS_POWER = 9
-export const SLIDE_SPEED = 7
-export const SLIDE_DURATION = 25
-
-export function createInitialBall(): Ball {
-  return {
-    x: FIELD_WIDTH / 2,
-    y: FIELD_HEIGHT / 2,
-    velocityX: 0,
-    velocityY: 0,
-    ownerId: null,
-    isGrabbed: false,
-  }
-}
-
-export function getInitialPlayerPosition(
-  team: "home" | "away",
-  playerIndex: number,
-  isGoalkeeper: boolean,
-): { x: number; y: number } {
-  if (isGoalkeeper) {
-    return {
-      x: team === "home" ? 50 : FIELD_WIDTH - 50,
-      y: FIELD_HEIGHT / 2,
-    }
-  }
-
-  const formations = {
-    home: [
-      { x: 150, y: 150 },
-      { x: 150, y: 350 },
-      { x: 300, y: 200 },
-      { x: 300, y: 300 },
-    ],
-    away: [
-      { x: FIELD_WIDTH - 150, y: 150 },
-      { x: FIELD_WIDTH - 150, y: 350 },
-      { x: FIELD_WIDTH - 300, y: 200 },
-      { x: FIELD_WIDTH - 300, y: 300 },
-    ],
-  }
-
-  const pos = formations[team][playerIndex % 4]
-  return pos || { x: FIELD_WIDTH / 2, y: FIELD_HEIGHT / 2 }
-}
-
-export async function getRoom(roomId: string): Promise<GameRoom | null> {
+export async function getRoom(roomId: string): Promise<StoredRoom | null> {
   try {
-    const room = await redis.get<GameRoom>(`${ROOM_KEY}${roomId}`)
-    return room
+    const room = await redis.get<StoredRoom>(`${ROOM_KEY}${roomId}`)
+    // Rooms saved before a rule existed, or before rules at all, play by the defaults
+    return room && { ...room, rules: parseRoomRules(room.rules) }
   } catch {
     return null
   }
 }
 
-export async function getPlayers(roomId: string): Promise<Map<string, Player>> {
+export async function getPlayers(roomId: string): Promise<Map<string, RoomPlayer>> {
   try {
-    const playersObj = await redis.hgetall<Record<string, Player>>(`${ROOM_PLAYERS_KEY}${roomId}`)
-    const map = new Map<string, Player>()
+    const playersObj = await redis.hgetall<Record<string, StoredPlayer>>(`${ROOM_PLAYERS_KEY}${roomId}`)
+    const controllers = await redis.hgetall<Record<string, Controller>>(`${ROOM_CONTROLLERS_KEY}${roomId}`)
+    const map = new Map<string, RoomPlayer>()
     if (playersObj) {
       Object.entries(playersObj).forEach(([id, player]) => {
-        map.set(id, player as Player)
+        const controller = controllers?.[id] ?? null
+        map.set(id, { ...player, isHuman: controller !== null, controller })
       })
     }
     return map
@@ -130,7 +87,7 @@ export async function getPlayers(roomId: string): Promise<Map<string, Player>> {
   }
 }
 
-export async function saveRoom(room: GameRoom): Promise<void> {
+export async function saveRoom(room: StoredRoom): Promise<void> {
   try {
     await redis.set(`${ROOM_KEY}${room.id}`, room, { ex: 3600 }) // 1 hour expiry
   } catch (e) {
@@ -138,9 +95,11 @@ export async function saveRoom(room: GameRoom): Promise<void> {
   }
 }
 
-export async function savePlayer(roomId: string, player: Player): Promise<void> {
+// Saves the simulated player only; who is controlling them is left as it is in its own hash
+export async function savePlayer(roomId: string, player: StoredPlayer | RoomPlayer): Promise<void> {
+  const { controller: _controller, ...stored } = { controller: null, ...player }
   try {
-    await redis.hset(`${ROOM_PLAYERS_KEY}${roomId}`, { [player.id]: player })
+    await redis.hset(`${ROOM_PLAYERS_KEY}${roomId}`, { [player.id]: { ...stored, isHuman: false } })
     await redis.expire(`${ROOM_PLAYERS_KEY}${roomId}`, 3600)
   } catch (e) {
     console.error("Failed to save player:", e)
@@ -155,34 +114,91 @@ export async function removePlayer(roomId: string, playerId: string): Promise<vo
   }
 }
 
-export async function createRoom(roomId: string, name: string): Promise<GameRoom> {
-  const room: GameRoom = {
+// The player a client is currently playing, if any
+function findControlled(players: Map<string, RoomPlayer>, clientId: string): RoomPlayer | null {
+  return Array.from(players.values()).find((p) => p.controller?.clientId === clientId) ?? null
+}
+
+async function takeControl(roomId: string, player: RoomPlayer, controller: Controller) {
+  player.controller = controller
+  player.isHuman = true
+  try {
+    await redis.hset(`${ROOM_CONTROLLERS_KEY}${roomId}`, { [player.id]: controller })
+    await redis.expire(`${ROOM_CONTROLLERS_KEY}${roomId}`, 3600)
+    await markSeen(roomId, controller.clientId)
+  } catch (e) {
+    console.error("Failed to save controller:", e)
+  }
+}
+
+// Hands a player back to the computer, dropping any input of theirs not yet simulated
+async function releaseControl(roomId: string, player: RoomPlayer) {
+  player.controller = null
+  player.isHuman = false
+  try {
+    await redis.hdel(`${ROOM_CONTROLLERS_KEY}${roomId}`, player.id)
+    await redis.hdel(`${ROOM_INPUTS_KEY}${roomId}`, player.id)
+  } catch (e) {
+    console.error("Failed to release controller:", e)
+  }
+}
+
+async function markSeen(roomId: string, clientId: string) {
+  await redis.hset(`${ROOM_SEEN_KEY}${roomId}`, { [clientId]: Date.now() })
+  await redis.expire(`${ROOM_SEEN_KEY}${roomId}`, 3600)
+}
+
+export async function createRoom(
+  roomId: string,
+  name: string,
+  rules: RoomRules = DEFAULT_RULES,
+  squads: Record<Team, string> = DEFAULT_SQUADS,
+): Promise<StoredRoom> {
+  const room: StoredRoom = {
+    ...createGameRoom(createSeed(), rules),
     id: roomId,
     name,
-    ball: createInitialBall(),
-    score: { home: 0, away: 0 },
-    gameTime: 180,
-    isPlaying: true,
-    lastGoalTeam: null,
-    goalCelebration: 0,
+    squads: { ...squads },
     lastTick: Date.now(),
     createdAt: Date.now(),
   }
 
+  const players: StoredPlayer[] = []
+  for (const team of ["home", "away"] as Team[]) {
+    for (const slot of squadSlots(room.rules.teamSize)) {
+      players.push({ ...createSquadPlayer(`${team}_${slot}`, squads[team], team, slot, false), slot })
+    }
+  }
+  // Line the squads up on this room's pitch
+  resetPositions({ ...room, players }, "home")
+
+  // A room id can be reused, so nobody carries over from an old room under it
+  await redis.del(`${ROOM_CONTROLLERS_KEY}${roomId}`, `${ROOM_INPUTS_KEY}${roomId}`, `${ROOM_SEEN_KEY}${roomId}`)
   await saveRoom(room)
+  for (const player of players) {
+    await savePlayer(roomId, player)
+  }
   await redis.sadd(ROOM_LIST_KEY, roomId)
   await redis.expire(ROOM_LIST_KEY, 86400)
 
   return room
 }
 
-export async function getRoomList(): Promise<
-  { id: string; name: string; players: number; maxPlayers: number; status: string }[]
-> {
+interface RoomSummary {
+  id: string
+  name: string
+  players: number
+  maxPlayers: number
+  status: string
+  squads: Record<Team, string>
+  rules: RoomRules
+}
+
+export async function getRoomList(): Promise<RoomSummary[]> {
   try {
     const roomIds = await redis.smembers(ROOM_LIST_KEY)
     const now = Date.now()
-    const result: { id: string; name: string; players: number; maxPlayers: number; status: string }[] = []
+    const result: RoomSummary[] = []
 
     for (const roomId of roomIds) {
       const room = await getRoom(roomId)
@@ -196,32 +212,32 @@ export async function getRoomList(): Promise<
         await redis.srem(ROOM_LIST_KEY, roomId)
         await redis.del(`${ROOM_KEY}${roomId}`)
         await redis.del(`${ROOM_PLAYERS_KEY}${roomId}`)
+        await redis.del(`${ROOM_CONTROLLERS_KEY}${roomId}`, `${ROOM_INPUTS_KEY}${roomId}`, `${ROOM_SEEN_KEY}${roomId}`)
         continue
       }
 
       const players = await getPlayers(roomId)
-
-      // Remove inactive players (15 seconds no update)
-      for (const [playerId, player] of players.entries()) {
-        if (now - player.lastUpdate > 15000) {
-          await removePlayer(roomId, playerId)
-          players.delete(playerId)
-
-          // Reset ball if player had it
-          if (player.hasBall) {
-            room.ball.ownerId = null
-            room.ball.isGrabbed = false
-            await saveRoom(room)
-          }
+      const seen = (await redis.hgetall<Record<string, number>>(`${ROOM_SEEN_KEY}${roomId}`)) ?? {}
+
+      // Hand inactive players back to the computer (15 seconds no update)
+      let humans = 0
+      for (const player of players.values()) {
+        if (!player.controller) continue
+        if (now - (seen[player.controller.clientId] ?? 0) > 15000) {
+          await releaseControl(roomId, player)
+        } else {
+          humans++
         }
       }
 
       result.push({
         id: room.id,
         name: room.name,
-        players: players.size,
-        maxPlayers: 10,
-        status: room.isPlaying ? "playing" : "waiting",
+        players: humans,
+        maxPlayers: room.rules.teamSize * 2,
+        status: room.phase === "finished" ? "finished" : room.isPlaying ? "playing" : "waiting",
+        squads: room.squads ?? DEFAULT_SQUADS,
+        rules: room.rules,
       })
     }
 
@@ -234,357 +250,126 @@ export async function getRoomList(): Promise<
 
 export async function joinRoom(
   roomId: string,
-  playerId: string,
+  clientId: string,
   playerName: string,
-  team: "home" | "away",
-): Promise<Player | null> {
-  let room = await getRoom(roomId)
-  if (!room) {
-    room = await createRoom(roomId, `Room ${roomId.slice(-6)}`)
+  team: Team,
+): Promise<StoredPlayer | null> {
+  if (!(await getRoom(roomId))) {
+    await createRoom(roomId, `Room ${roomId.slice(-6)}`)
   }
 
   const players = await getPlayers(roomId)
 
-  // Check if player already exists
-  const existingPlayer = players.get(playerId)
+  // Check if the client is already playing
+  const existingPlayer = findControlled(players, clientId)
   if (existingPlayer) {
-    existingPlayer.lastUpdate = Date.now()
-    await savePlayer(roomId, existingPlayer)
+    await markSeen(roomId, clientId)
     return existingPlayer
   }
 
-  // Count players on each team
-  let homeCount = 0
-  let awayCount = 0
-  players.forEach((p) => {
-    if (p.team === "home") homeCount++
-    else awayCount++
-  })
-
-  // Limit to 5 per team
-  if ((team === "home" && homeCount >= 5) || (team === "away" && awayCount >= 5)) {
-    return null
-  }
-
-  const isGoalkeeper = team === "home" ? homeCount === 0 : awayCount === 0
-  const playerIndex = team === "home" ? homeCount : awayCount
-  const pos = getInitialPlayerPosition(team, playerIndex, isGoalkeeper)
-
-  const player: Player = {
-    id: playerId,
-    name: playerName.slice(0, 16) || `Player ${players.size + 1}`,
-    x: pos.x,
-    y: pos.y,
-    team,
-    isGoalkeeper,
-    hasBall: false,
-    isSliding: false,
-    slideTimer: 0,
-    grabTimer: 0,
-    velocityX: 0,
-    velocityY: 0,
-    facingX: team === "home" ? 1 : -1,
-    facingY: 0,
-    lastUpdate: Date.now(),
-    animFrame: Math.random() * 100,
-  }
+  // Take over the first bot on that side, so the first to join keeps goal. A side with no
+  // bots left is full.
+  const player = Array.from(players.values())
+    .filter((p) => p.team === team && !p.controller && !p.sentOff)
+    .sort((a, b) => a.slot - b.slot)[0]
+  if (!player) return null
 
-  await savePlayer(roomId, player)
+  const humans = Array.from(players.values()).filter((p) => p.controller).length
+  await takeControl(roomId, player, { clientId, name: playerName.slice(0, 16) || `Player ${humans + 1}` })
   return player
 }
 
-export async function leaveRoom(roomId: string, playerId: string) {
+export async function leaveRoom(roomId: string, clientId: string) {
+  const player = findControlled(await getPlayers(roomId), clientId)
+  if (player) await releaseControl(roomId, player)
+}
+
+// Moves a client on to the bot teammate best placed to play, leaving their old player to
+// the computer
+export async function switchPlayer(roomId: string, clientId: string) {
   const room = await getRoom(roomId)
   const players = await getPlayers(roomId)
-  const player = players.get(playerId)
+  const current = findControlled(players, clientId)
+  if (!room || !current?.controller) return
 
-  if (room && player?.hasBall) {
-    room.ball.ownerId = null
-    room.ball.isGrabbed = false
-    await saveRoom(room)
-  }
+  const target = findSwitchTarget(room, Array.from(players.values()), current, (p) => !p.controller)
+  if (!target) return
 
-  await removePlayer(roomId, playerId)
+  await takeControl(roomId, target, current.controller)
+  await releaseControl(roomId, current)
 }
 
-function findNearestTeammate(players: Map<string, Player>, fromPlayer: Player): Player | null {
-  let nearest: Player | null = null
-  let minDist = Number.POSITIVE_INFINITY
-
-  players.forEach((p) => {
-    if (p.id === fromPlayer.id || p.team !== fromPlayer.team) return
-
-    const dx = p.x - fromPlayer.x
-    const dy = p.y - fromPlayer.y
-    const dist = Math.sqrt(dx * dx + dy * dy)
-
-    const dotProduct = dx * fromPlayer.facingX + dy * fromPlayer.facingY
-    const adjustedDist = dotProduct > 0 ? dist * 0.6 : dist * 1.4
-
-    if (adjustedDist < minDist) {
-      minDist = adjustedDist
-      nearest = p
-    }
-  })
-
-  return nearest
+// Joins the stored room and its player hash into the shape the engine simulates
+function toGameState(room: StoredRoom, players: Map<string, RoomPlayer>): StoredRoom & GameState {
+  return { ...room, players: Array.from(players.values()) }
 }
 
-export async function handleInput(
-  roomId: string,
-  playerId: string,
-  input: { dx: number; dy: number; shoot: boolean; slide: boolean; grab: boolean; pass?: boolean },
-) {
-  const room = await getRoom(roomId)
-  if (!room) return
+function fromGameState(state: StoredRoom & GameState): StoredRoom {
+  const { players: _players, ...room } = state
+  return room
+}
 
-  const players = await getPlayers(roomId)
-  const player = players.get(playerId)
+export async function handleInput(roomId: string, clientId: string, input: PlayerInput) {
+  const player = findControlled(await getPlayers(roomId), clientId)
   if (!player) return
 
-  player.lastUpdate = Date.now()
-
-  // Handle movement
-  if (input.dx !== 0 || input.dy !== 0) {
-    const magnitude = Math.sqrt(input.dx * input.dx + input.dy * input.dy)
-    if (magnitude > 0) {
-      player.facingX = input.dx / magnitude
-      player.facingY = input.dy / magnitude
-    }
-
-    if (!player.isSliding) {
-      player.velocityX = input.dx * PLAYER_SPEED
-      player.velocityY = input.dy * PLAYER_SPEED
-    }
+  await markSeen(roomId, clientId)
+
+  // Keep one-shot presses that have not been simulated yet
+  const pending = await redis.hget<PlayerInput>(`${ROOM_INPUTS_KEY}${roomId}`, player.id)
+  const next: PlayerInput = {
+    dx: Number(input.dx) || 0,
+    dy: Number(input.dy) || 0,
+    shoot: Boolean(input.shoot) || Boolean(pending?.shoot),
+    pass: Boolean(input.pass) || Boolean(pending?.pass),
+    slide: Boolean(input.slide) || Boolean(pending?.slide),
+    grab: Boolean(input.grab) || Boolean(pending?.grab),
+    through: Boolean(input.through) || Boolean(pending?.through),
+    sprint: Boolean(input.sprint),
+    lob: Boolean(input.lob) || Boolean(pending?.lob),
+    charge: input.shoot || input.pass ? Math.max(0, Math.min(1, Number(input.charge) || 0)) : (pending?.charge ?? 0),
+    curve: Math.max(-1, Math.min(1, Number(input.curve) || 0)),
   }
 
-  // Handle shooting
-  if (input.shoot && player.hasBall) {
-    player.hasBall = false
-    room.ball.ownerId = null
-    room.ball.isGrabbed = false
-    room.ball.velocityX = player.facingX * SHOOT_POWER
-    room.ball.velocityY = player.facingY * SHOOT_POWER
-  }
-
-  // Handle passing
-  if (input.pass && player.hasBall) {
-    const teammate = findNearestTeammate(players, player)
-    if (teammate) {
-      player.hasBall = false
-      room.ball.ownerId = null
-      room.ball.isGrabbed = false
-      const dx = teammate.x - player.x
-      const dy = teammate.y - player.y
-      const dist = Math.sqrt(dx * dx + dy * dy)
-      room.ball.velocityX = (dx / dist) * PASS_POWER
-      room.ball.velocityY = (dy / dist) * PASS_POWER
-    }
-  }
-
-  // Handle sliding
-  if (input.slide && !player.isSliding && !player.hasBall) {
-    player.isSliding = true
-    player.slideTimer = SLIDE_DURATION
-  }
-
-  // Handle goalkeeper grab
-  if (input.grab && player.isGoalkeeper && !room.ball.ownerId) {
-    const dx = player.x - room.ball.x
-    const dy = player.y - room.ball.y
-    const dist = Math.sqrt(dx * dx + dy * dy)
-
-    if (dist < PLAYER_SIZE * 2.5) {
-      player.hasBall = true
-      room.ball.ownerId = player.id
-      room.ball.isGrabbed = true
-    }
-  }
-
-  await savePlayer(roomId, player)
-  await saveRoom(room)
-}
-
-function resetPositions(room: GameRoom, players: Map<string, Player>): Map<string, Player> {
-  room.ball = createInitialBall()
-
-  let homeIndex = 0
-  let awayIndex = 0
-
-  players.forEach((player) => {
-    const isGoalkeeper = player.team === "home" ? homeIndex === 0 : awayIndex === 0
-    player.isGoalkeeper = isGoalkeeper
-
-    const pos = getInitialPlayerPosition(player.team, player.team === "home" ? homeIndex : awayIndex, isGoalkeeper)
-    player.x = pos.x
-    player.y = pos.y
-    player.hasBall = false
-    player.isSliding = false
-    player.velocityX = 0
-    player.velocityY = 0
-
-    if (player.team === "home") homeIndex++
-    else awayIndex++
-  })
-
-  return players
+  await redis.hset(`${ROOM_INPUTS_KEY}${roomId}`, { [player.id]: next })
+  await redis.expire(`${ROOM_INPUTS_KEY}${roomId}`, 3600)
 }
 
 export async function updateGame(roomId: string) {
   const room = await getRoom(roomId)
   if (!room || !room.isPlaying) return
 
-  const players = await getPlayers(roomId)
-  const now = Date.now()
-  const deltaMs = now - room.lastTick
-
-  // Only update if enough time has passed (prevent too frequent updates)
-  if (deltaMs < 16) return
-
-  const deltaFrames = Math.min(10, Math.floor(deltaMs / 16.67))
-  room.lastTick = now
-
-  let needsReset = false
-
-  for (let frame = 0; frame < deltaFrames; frame++) {
-    // Handle goal celebration
-    if (room.goalCelebration > 0) {
-      room.goalCelebration--
-      if (room.goalCelebration === 0) {
-        needsReset = true
-      }
-      continue
-    }
-
-    // Update game time
-    if (room.gameTime > 0 && Math.random() < 0.0167) {
-      room.gameTime--
-    }
-
-    // Update players
-    players.forEach((player) => {
-      if (Math.abs(player.velocityX) > 0.3 || Math.abs(player.velocityY) > 0.3) {
-        player.animFrame += 0.5
-      }
-
-      if (player.isSliding) {
-        player.slideTimer--
-        if (player.slideTimer <= 0) {
-          player.isSliding = false
-        } else {
-          player.x += player.facingX * SLIDE_SPEED
-          player.y += player.facingY * SLIDE_SPEED
-        }
-      }
-
-      player.x += player.velocityX
-      player.y += player.velocityY
-      player.velocityX *= 0.88
-      player.velocityY *= 0.88
-
-      player.x = Math.max(PLAYER_SIZE, Math.min(FIELD_WIDTH - PLAYER_SIZE, player.x))
-      player.y = Math.max(PLAYER_SIZE, Math.min(FIELD_HEIGHT - PLAYER_SIZE, player.y))
-
-      if (player.hasBall && !room.ball.isGrabbed) {
-        room.ball.x = player.x + player.facingX * (PLAYER_SIZE / 2 + BALL_SIZE / 2 + 2)
-        room.ball.y = player.y + player.facingY * (PLAYER_SIZE / 2 + BALL_SIZE / 2 + 2)
-        room.ball.velocityX = 0
-        room.ball.velocityY = 0
-        room.ball.ownerId = player.id
-      }
-
-      if (player.isGoalkeeper && player.hasBall && room.ball.isGrabbed) {
-        room.ball.x = player.x
-        room.ball.y = player.y - PLAYER_SIZE / 2 - BALL_SIZE
-      }
-    })
-
-    // Update ball physics
-    if (!room.ball.ownerId) {
-      room.ball.x += room.ball.velocityX
-      room.ball.y += room.ball.velocityY
-      room.ball.velocityX *= BALL_FRICTION
-      room.ball.velocityY *= BALL_FRICTION
-
-      if (room.ball.y < BALL_SIZE || room.ball.y > FIELD_HEIGHT - BALL_SIZE) {
-        room.ball.velocityY *= -0.8
-        room.ball.y = Math.max(BALL_SIZE, Math.min(FIELD_HEIGHT - BALL_SIZE, room.ball.y))
-      }
-
-      const goalTop = FIELD_HEIGHT / 2 - GOAL_HEIGHT / 2
-      const goalBottom = FIELD_HEIGHT / 2 + GOAL_HEIGHT / 2
+  // Polls bunch up behind Redis round-trips, so allow up to a second of catch-up to keep
+  // the match clock on wall time
+  const { ticks, lastTick } = consumeTicks(room.lastTick, Date.now(), TICK_RATE)
+  if (ticks === 0) return
 
-      if (room.ball.x < 25 && room.ball.y > goalTop && room.ball.y < goalBottom) {
-        room.score.away++
-        room.lastGoalTeam = "away"
-        room.goalCelebration = 150
-        continue
-      }
-
-      if (room.ball.x > FIELD_WIDTH - 25 && room.ball.y > goalTop && room.ball.y < goalBottom) {
-        room.score.home++
-        room.lastGoalTeam = "home"
-        room.goalCelebration = 150
-        continue
-      }
-
-      if (room.ball.x < BALL_SIZE || room.ball.x > FIELD_WIDTH - BALL_SIZE) {
-        room.ball.velocityX *= -0.8
-        room.ball.x = Math.max(BALL_SIZE, Math.min(FIELD_WIDTH - BALL_SIZE, room.ball.x))
-      }
-    }
-
-    // Check ball pickup
-    players.forEach((player) => {
-      if (player.hasBall || room.ball.ownerId) return
+  const players = await getPlayers(roomId)
+  const state = toGameState(room, players)
+  state.lastTick = lastTick
+
+  // Pending inputs cover the whole batch, buttons on the first tick only. Inputs left behind
+  // by a player who has since been handed back to the computer are dropped.
+  const pending = (await redis.hgetall<Record<string, PlayerInput>>(`${ROOM_INPUTS_KEY}${roomId}`)) ?? {}
+  const inputs: Record<string, PlayerInput> = {}
+  Object.entries(pending).forEach(([id, input]) => {
+    if (players.get(id)?.controller) inputs[id] = input
+  })
+  if (Object.keys(pending).length > 0) {
+    await redis.hdel(`${ROOM_INPUTS_KEY}${roomId}`, ...Object.keys(pending))
+  }
 
-      const dx = player.x - room.ball.x
-      const dy = player.y - room.ball.y
-      const dist = Math.sqrt(dx * dx + dy * dy)
+  const held = heldInputs(inputs)
 
-      if (dist < PLAYER_SIZE / 2 + BALL_SIZE / 2 + 4) {
-        player.hasBall = true
-        room.ball.ownerId = player.id
-        room.ball.isGrabbed = false
-      }
-    })
-
-    // Check slide tackles
-    players.forEach((slidingPlayer) => {
-      if (!slidingPlayer.isSliding) return
-
-      players.forEach((targetPlayer) => {
-        if (targetPlayer.id === slidingPlayer.id) return
-        if (targetPlayer.team === slidingPlayer.team) return
-        if (!targetPlayer.hasBall) return
-
-        const dx = slidingPlayer.x - targetPlayer.x
-        const dy = slidingPlayer.y - targetPlayer.y
-        const dist = Math.sqrt(dx * dx + dy * dy)
-
-        if (dist < PLAYER_SIZE * 1.8) {
-          targetPlayer.hasBall = false
-          room.ball.ownerId = null
-          room.ball.isGrabbed = false
-          room.ball.velocityX = (Math.random() - 0.5) * 6
-          room.ball.velocityY = (Math.random() - 0.5) * 6
-        }
-      })
-    })
+  for (let i = 0; i < ticks; i++) {
+    step(state, withAIInputs(state, i === 0 ? inputs : held))
   }
 
-  if (needsReset) {
-    const resetPlayers = resetPositions(room, players)
-    for (const [id, player] of resetPlayers.entries()) {
-      await savePlayer(roomId, player)
-    }
-  } else {
-    for (const [id, player] of players.entries()) {
-      await savePlayer(roomId, player)
-    }
+  for (const player of players.values()) {
+    await savePlayer(roomId, player)
   }
 
-  await saveRoom(room)
+  await saveRoom(fromGameState(state))
 }
 
 export async function getGameState(roomId: string) {
@@ -599,10 +384,14 @@ export async function getGameState(roomId: string) {
 
   if (!updatedRoom) return null
 
+  const { lastTick: _lastTick, ...match } = updatedRoom
+
   return {
+    ...match,
     players: Array.from(players.values()).map((p) => ({
       id: p.id,
-      name: p.name,
+      name: p.controller?.name ?? p.name,
+      shirtNumber: p.shirtNumber,
       x: p.x,
       y: p.y,
       team: p.team,
@@ -610,17 +399,17 @@ export async function getGameState(roomId: string) {
       hasBall: p.hasBall,
       isSliding: p.isSliding,
       slideTimer: p.slideTimer,
+      diveTimer: p.diveTimer,
       velocityX: p.velocityX,
       velocityY: p.velocityY,
       facingX: p.facingX,
       facingY: p.facingY,
       animFrame: p.animFrame,
+      yellowCards: p.yellowCards,
+      sentOff: p.sentOff,
+      stamina: p.stamina,
+      isSprinting: p.isSprinting,
+      controllerId: p.controller?.clientId ?? null,
     })),
-    ball: updatedRoom.ball,
-    score: updatedRoom.score,
-    gameTime: updatedRoom.gameTime,
-    isPlaying: updatedRoom.isPlaying,
-    lastGoalTeam: updatedRoom.lastGoalTeam,
-    goalCelebration: updatedRoom.goalCelebration,
   }
 }
@@ -0,0 +1,84 @@
+// Which player each person steers. In local matches control moves around a team as play
+// moves, and a switch button jumps to the best placed teammate; online, the same button
+// swaps to a teammate the computer is playing.
+
+import {
+  TICK_RATE,
+  attackDirection,
+  findClosestPlayerToBall,
+  type GameRoom,
+  type GameState,
+  type Player,
+  type Team,
+} from "@/lib/game-engine"
+
+// "always" follows the ball all over the pitch; "defence" leaves the choice to the switch
+// button while the team is on the ball
+export type AutoSwitch = "always" | "defence"
+
+export const AUTO_SWITCHES: AutoSwitch[] = ["always", "defence"]
+
+export const SWITCH_MARGIN = 40 // a teammate must be this much closer to the ball to take over on their own
+export const SWITCH_HOLD_TICKS = TICK_RATE // after a switch press, control stays put this long
+
+type SwitchCandidate = Pick<Player, "id" | "team" | "x" | "y" | "isGoalkeeper" | "sentOff">
+
+export function isDefending(state: GameRoom, team: Team): boolean {
+  return state.ball.lastTouch !== null && state.ball.lastTouch !== team
+}
+
+// Lower is better. Distance to the ball, doubled when defending for anyone caught upfield
+// of it, since they cannot get back goal-side in time.
+function switchScore(state: GameRoom, player: SwitchCandidate): number {
+  const dist = Math.hypot(player.x - state.ball.x, player.y - state.ball.y)
+  const upfield = (player.x - state.ball.x) * attackDirection(state, player.team) > 0
+  return isDefending(state, player.team) && upfield ? dist * 2 : dist
+}
+
+// Where a switch press moves control: the best placed outfield teammate of `current`.
+// `canTake` rules out players someone else is already steering.
+export function findSwitchTarget<P extends SwitchCandidate>(
+  state: GameRoom,
+  players: P[],
+  current: P,
+  canTake: (player: P) => boolean = () => true,
+): P | null {
+  let best: P | null = null
+  let bestScore = Number.POSITIVE_INFINITY
+
+  players.forEach((player) => {
+    if (player.team !== current.team || player.id === current.id || player.sentOff || player.isGoalkeeper) return
+    if (!canTake(player)) return
+
+    const score = switchScore(state, player)
+    if (score < bestScore) {
+      bestScore = score
+      best = player
+    }
+  })
+
+  return best
+}
+
+// Who a team's human plays as this tick, given who they played as last tick. Control
+// always goes to a teammate who receives the ball. Otherwise it passes to whoever is
+// clearly closest to the ball, unless the last switch press is still being held or
+// `autoSwitch` keeps it put while the team has the ball. Restarts hand it to the player
+// nearest the ball, who is the one taking them.
+export function updateControl(
+  state: GameState,
+  team: Team,
+  current: Player | null,
+  autoSwitch: AutoSwitch,
+  held: boolean,
+): Player | null {
+  const closest = findClosestPlayerToBall(state, team)
+  if (!current || current.sentOff || state.kickoff || state.setPiece || state.shootout) return closest
+
+  const owner = state.players.find((player) => player.id === state.ball.ownerId)
+  if (owner?.team === team) return owner
+  if (held || (autoSwitch === "defence" && !isDefending(state, team))) return current
+
+  const ballDist = (player: Player) => Math.hypot(player.x - state.ball.x, player.y - state.ball.y)
+  return closest && ballDist(closest) + SWITCH_MARGIN < ballDist(current) ? closest : current
+}
@@ -1,21 +1,53 @@
+import {
+  GOAL_LINE,
+  PENALTY_SPOT_DISTANCE,
+  POST_RADIUS,
+  SHOOTOUT_ROUNDS,
+  TICK_RATE,
+  TIRED_STAMINA,
+  TOUCHLINE,
+  WIND_STRENGTH,
+  getGoalFrame,
+  getWinner,
+  isDiveFlying,
+  type GameRoom,
+  type GoalFrame,
+  type Pitch,
+  type Player,
+  type SetPieceType,
+  type Shootout,
+} from "@/lib/game-engine"
+
 export interface PlayerRenderState {
   x: number
   y: number
   team: "home" | "away"
   isGoalkeeper: boolean
   isSliding: boolean
+  diving?: "flying" | "down" // a keeper's dive, at full stretch and then lying where they landed
   hasBall: boolean
   facingX: number
   facingY: number
   isHuman: boolean
   name: string
+  shirtNumber: number
   animFrame: number
   velocityX?: number
   velocityY?: number
+  charge?: number // 0 to 1 while shoot or pass is held down
+  lobReady?: boolean // held long enough that letting go lofts the ball
+  stamina?: number // 0 to 1, shown under the player someone is controlling
+  switchTarget?: boolean // where the switch button would move control to
+}
+
+// Which dive pose, if any, to draw a player in
+export function divePose(player: Pick<Player, "diveTimer">): PlayerRenderState["diving"] {
+  if (player.diveTimer <= 0) return undefined
+  return isDiveFlying(player) ? "flying" : "down"
 }
 
 export function drawPlayer(ctx: CanvasRenderingContext2D, player: PlayerRenderState, showIndicator = true) {
-  const { x, y, team, isGoalkeeper, isSliding, isHuman, hasBall, facingX, animFrame } = player
+  const { x, y, team, isGoalkeeper, isSliding, diving, isHuman, hasBall, facingX, facingY, animFrame } = player
 
   // Determine if moving based on velocity or animation frame
   const vx = player.velocityX ?? 0
@@ -67,7 +99,51 @@ export function drawPlayer(ctx: CanvasRenderingContext2D, player: PlayerRenderSt
   const armSwing = runCycle * 4
   const bodyBob = Math.abs(runCycle) * 1.5
 
-  if (isSliding) {
+  if (diving) {
+    // ===== DIVING POSE =====
+    // Stretched out along the dive, gloves first, lifted off the grass while in the air
+    ctx.save()
+    ctx.translate(x, y - (diving === "flying" ? 6 : 0))
+    ctx.rotate(Math.atan2(facingY, facingX))
+
+    // Legs trailing
+    ctx.fillStyle = shortsColor
+    ctx.fillRect(-16, -3, 8, 6)
+    ctx.fillStyle = skinColor
+    ctx.fillRect(-22, -3, 6, 2)
+    ctx.fillRect(-22, 1, 6, 2)
+    ctx.fillStyle = "#1a1a2e"
+    ctx.fillRect(-25, -4, 3, 3)
+    ctx.fillRect(-25, 1, 3, 3)
+
+    // Torso
+    ctx.fillStyle = shirtMain
+    ctx.fillRect(-8, -5, 14, 10)
+    ctx.fillStyle = shirtDark
+    ctx.fillRect(-8, 2, 14, 3)
+    ctx.fillStyle = shirtLight
+    ctx.fillRect(-6, -5, 10, 2)
+
+    // Arms reaching ahead, gloves at the end
+    ctx.fillStyle = shirtMain
+    ctx.fillRect(6, -6, 10, 3)
+    ctx.fillRect(6, 3, 10, 3)
+    ctx.fillStyle = "#ffffff"
+    ctx.fillRect(16, -7, 4, 5)
+    ctx.fillRect(16, 2, 4, 5)
+
+    // Head between the arms
+    ctx.fillStyle = skinColor
+    ctx.beginPath()
+    ctx.arc(10, 0, 4.5, 0, Math.PI * 2)
+    ctx.fill()
+    ctx.fillStyle = hairColor
+    ctx.beginPath()
+    ctx.arc(9, 0, 4, Math.PI / 2, (Math.PI * 3) / 2)
+    ctx.fill()
+
+    ctx.restore()
+  } else if (isSliding) {
     // ===== SLIDING POSE =====
     // Body horizontal
     ctx.save()
@@ -177,8 +253,7 @@ export function drawPlayer(ctx: CanvasRenderingContext2D, player: PlayerRenderSt
     ctx.fillStyle = "#ffffff"
     ctx.font = "bold 7px monospace"
     ctx.textAlign = "center"
-    const playerNum = player.name.match(/\d+/)?.[0] || "1"
-    ctx.fillText(playerNum, 0, -1)
+    ctx.fillText(String(player.shirtNumber), 0, -1)
 
     // === ARMS with swing animation ===
     ctx.fillStyle = skinColor
@@ -264,6 +339,18 @@ export function drawPlayer(ctx: CanvasRenderingContext2D, player: PlayerRenderSt
     ctx.fill()
   }
 
+  // Next switch target (hollow triangle above head)
+  if (player.switchTarget && !isHuman && showIndicator) {
+    ctx.strokeStyle = "#00ff88"
+    ctx.lineWidth = 2
+    ctx.beginPath()
+    ctx.moveTo(x, y - 28)
+    ctx.lineTo(x - 5, y - 35)
+    ctx.lineTo(x + 5, y - 35)
+    ctx.closePath()
+    ctx.stroke()
+  }
+
   // Ball possession indicator (glowing dot above head)
   if (hasBall) {
     ctx.fillStyle = "#ffff00"
@@ -275,6 +362,9 @@ export function drawPlayer(ctx: CanvasRenderingContext2D, player: PlayerRenderSt
     ctx.shadowBlur = 0
   }
 
+  if (player.charge !== undefined) {
+    drawChargeMeter(ctx, x, y - 52, player.charge, player.lobReady ?? false)
+  }
   // Player name
   ctx.fillStyle = "#fff"
   ctx.strokeStyle = "#000"
@@ -283,15 +373,52 @@ export function drawPlayer(ctx: CanvasRenderingContext2D, player: PlayerRenderSt
   ctx.textAlign = "center"
   ctx.strokeText(player.name.slice(0, 8), x, y + 28)
   ctx.fillText(player.name.slice(0, 8), x, y + 28)
+
+  if (player.stamina !== undefined) {
+    drawStaminaBar(ctx, x, y + 31, player.stamina)
+  }
+}
+
+// Power bar for a held shoot or pass: green to red as it fills, then flashing blue once
+// letting go would loft the ball
+function drawChargeMeter(ctx: CanvasRenderingContext2D, x: number, y: number, charge: number, lobReady: boolean) {
+  const width = 24
+  const height = 5
+  ctx.fillStyle = "#000"
+  ctx.fillRect(x - width / 2 - 1, y - 1, width + 2, height + 2)
+
+  if (lobReady) {
+    ctx.fillStyle = Math.floor(Date.now() / 100) % 2 === 0 ? "#6bd4ff" : "#fff"
+  } else {
+    ctx.fillStyle = charge < 0.5 ? "#00ff88" : charge < 0.85 ? "#ffff00" : "#ff4444"
+  }
+  // Whole pixels only, like an NES status bar
+  ctx.fillRect(x - width / 2, y, Math.round(width * charge), height)
+}
+
+// Thin bar under the name that empties as the player tires, turning red once they slow down
+function drawStaminaBar(ctx: CanvasRenderingContext2D, x: number, y: number, stamina: number) {
+  const width = 20
+  const height = 3
+  ctx.fillStyle = "#000"
+  ctx.fillRect(x - width / 2 - 1, y - 1, width + 2, height + 2)
+  ctx.fillStyle = stamina < TIRED_STAMINA ? "#ff4444" : "#6bd4ff"
+  ctx.fillRect(x - width / 2, y, Math.round(width * stamina), height)
 }
 
-export function drawBall(ctx: CanvasRenderingContext2D, x: number, y: number, size = 12) {
+// `z` is the ball's height. The shadow stays on the pitch at (x, y), shrinking as the ball
+// rises, and the ball is drawn that many pixels above it.
+export function drawBall(ctx: CanvasRenderingContext2D, x: number, groundY: number, size = 12, z = 0) {
   // Shadow
+  const shadowScale = Math.max(0.4, 1 - z / 80)
   ctx.fillStyle = "rgba(0, 0, 0, 0.3)"
   ctx.beginPath()
-  ctx.ellipse(x, y + size / 2 + 3, size / 2, 3, 0, 0, Math.PI * 2)
+  ctx.ellipse(x, groundY + size / 2 + 3, (size / 2) * shadowScale, 3 * shadowScale, 0, 0, Math.PI * 2)
   ctx.fill()
 
+  // Snap the height to whole pixels so the ball steps up and down like an NES sprite
+  const y = groundY - Math.round(z)
+
   // Ball base (white)
   ctx.fillStyle = "#fff"
   ctx.beginPath()
@@ -328,7 +455,9 @@ export function drawBall(ctx: CanvasRenderingContext2D, x: number, y: number, si
   ctx.stroke()
 }
 
-export function drawField(ctx: CanvasRenderingContext2D, width: number, height: number) {
+export function drawField(ctx: CanvasRenderingContext2D, pitch: Pitch) {
+  const { width, height, goalAreaDepth, goalAreaWidth, penaltyAreaDepth, penaltyAreaWidth } = pitch
+
   // Grass base
   ctx.fillStyle = "#1a5f2a"
   ctx.fillRect(0, 0, width, height)
@@ -342,17 +471,17 @@ export function drawField(ctx: CanvasRenderingContext2D, width: number, height:
   // Field outline
   ctx.strokeStyle = "rgba(255, 255, 255, 0.8)"
   ctx.lineWidth = 3
-  ctx.strokeRect(25, 25, width - 50, height - 50)
+  ctx.strokeRect(GOAL_LINE, TOUCHLINE, width - GOAL_LINE * 2, height - TOUCHLINE * 2)
 
   // Center line
   ctx.beginPath()
-  ctx.moveTo(width / 2, 25)
-  ctx.lineTo(width / 2, height - 25)
+  ctx.moveTo(width / 2, TOUCHLINE)
+  ctx.lineTo(width / 2, height - TOUCHLINE)
   ctx.stroke()
 
   // Center circle
   ctx.beginPath()
-  ctx.arc(width / 2, height / 2, 60, 0, Math.PI * 2)
+  ctx.arc(width / 2, height / 2, pitch.centerCircleRadius, 0, Math.PI * 2)
   ctx.stroke()
 
   // Center spot
@@ -362,69 +491,388 @@ export function drawField(ctx: CanvasRenderingContext2D, width: number, height:
   ctx.fill()
 
   // Penalty areas
-  ctx.strokeRect(25, height / 2 - 90, 80, 180)
-  ctx.strokeRect(width - 105, height / 2 - 90, 80, 180)
+  ctx.strokeRect(GOAL_LINE, height / 2 - penaltyAreaWidth / 2, penaltyAreaDepth, penaltyAreaWidth)
+  ctx.strokeRect(
+    width - GOAL_LINE - penaltyAreaDepth,
+    height / 2 - penaltyAreaWidth / 2,
+    penaltyAreaDepth,
+    penaltyAreaWidth,
+  )
 
   // Goal areas (6-yard box)
-  ctx.strokeRect(25, height / 2 - 50, 35, 100)
-  ctx.strokeRect(width - 60, height / 2 - 50, 35, 100)
+  ctx.strokeRect(GOAL_LINE, height / 2 - goalAreaWidth / 2, goalAreaDepth, goalAreaWidth)
+  ctx.strokeRect(width - GOAL_LINE - goalAreaDepth, height / 2 - goalAreaWidth / 2, goalAreaDepth, goalAreaWidth)
 
   // Penalty spots
   ctx.fillStyle = "#fff"
   ctx.beginPath()
-  ctx.arc(80, height / 2, 3, 0, Math.PI * 2)
+  ctx.arc(PENALTY_SPOT_DISTANCE, height / 2, 3, 0, Math.PI * 2)
   ctx.fill()
   ctx.beginPath()
-  ctx.arc(width - 80, height / 2, 3, 0, Math.PI * 2)
+  ctx.arc(width - PENALTY_SPOT_DISTANCE, height / 2, 3, 0, Math.PI * 2)
   ctx.fill()
 
-  const goalHeight = 150
-  const goalTop = height / 2 - goalHeight / 2
+  drawGoal(ctx, getGoalFrame("left", pitch))
+  drawGoal(ctx, getGoalFrame("right", pitch))
+}
+
+// Net, side netting and posts, from the same frame the ball collides with
+function drawGoal(ctx: CanvasRenderingContext2D, goal: GoalFrame) {
+  const left = Math.min(goal.lineX, goal.backX)
+  const depth = Math.abs(goal.lineX - goal.backX)
+  const height = goal.bottom - goal.top
 
-  // Goal posts and nets
-  // Left goal
   ctx.fillStyle = "#333"
-  ctx.fillRect(0, goalTop, 25, goalHeight)
+  ctx.fillRect(left, goal.top, depth, height)
   // Net pattern
   ctx.strokeStyle = "rgba(255, 255, 255, 0.3)"
   ctx.lineWidth = 1
-  for (let i = 0; i < goalHeight; i += 10) {
+  for (let i = 0; i < height; i += 10) {
     ctx.beginPath()
-    ctx.moveTo(0, goalTop + i)
-    ctx.lineTo(25, goalTop + i)
+    ctx.moveTo(left, goal.top + i)
+    ctx.lineTo(left + depth, goal.top + i)
     ctx.stroke()
   }
-  for (let i = 0; i < 25; i += 10) {
+  for (let i = 0; i < depth; i += 10) {
     ctx.beginPath()
-    ctx.moveTo(i, goalTop)
-    ctx.lineTo(i, goalTop + goalHeight)
+    ctx.moveTo(left + i, goal.top)
+    ctx.lineTo(left + i, goal.bottom)
     ctx.stroke()
   }
-  // Goal frame
+  // Side netting
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.7)"
+  ctx.lineWidth = 2
+  ctx.beginPath()
+  ctx.moveTo(goal.lineX, goal.top)
+  ctx.lineTo(goal.backX, goal.top)
+  ctx.moveTo(goal.lineX, goal.bottom)
+  ctx.lineTo(goal.backX, goal.bottom)
+  ctx.stroke()
+  // Crossbar and posts
   ctx.strokeStyle = "#fff"
   ctx.lineWidth = 4
-  ctx.strokeRect(0, goalTop, 25, goalHeight)
+  ctx.beginPath()
+  ctx.moveTo(goal.lineX, goal.top)
+  ctx.lineTo(goal.lineX, goal.bottom)
+  ctx.stroke()
+  ctx.fillStyle = "#fff"
+  for (const postY of [goal.top, goal.bottom]) {
+    ctx.beginPath()
+    ctx.arc(goal.lineX, postY, POST_RADIUS + 1, 0, Math.PI * 2)
+    ctx.fill()
+  }
+}
 
-  // Right goal
-  ctx.fillStyle = "#333"
-  ctx.fillRect(width - 25, goalTop, 25, goalHeight)
-  // Net pattern
-  ctx.strokeStyle = "rgba(255, 255, 255, 0.3)"
-  ctx.lineWidth = 1
-  for (let i = 0; i < goalHeight; i += 10) {
+// What the weather has done to the grass: mud patches, or a covering of snow. Drawn over
+// the field and under the players.
+export function drawGround(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  state: Pick<GameRoom, "rules" | "mud">,
+) {
+  if (state.rules.weather === "snow") {
+    ctx.fillStyle = "rgba(235, 245, 255, 0.35)"
+    ctx.fillRect(0, 0, width, height)
+  }
+
+  state.mud.forEach((patch) => {
+    ctx.fillStyle = "#5a4020"
     ctx.beginPath()
-    ctx.moveTo(width - 25, goalTop + i)
-    ctx.lineTo(width, goalTop + i)
+    ctx.ellipse(patch.x, patch.y, patch.radius, patch.radius * 0.8, 0, 0, Math.PI * 2)
+    ctx.fill()
+    // Wetter middle
+    ctx.fillStyle = "#4a3318"
+    ctx.beginPath()
+    ctx.ellipse(patch.x + 4, patch.y + 2, patch.radius * 0.55, patch.radius * 0.4, 0, 0, Math.PI * 2)
+    ctx.fill()
+  })
+}
+
+// Rain, snow or wind blowing across the whole pitch, drawn over the players. Particles
+// move with the match tick so every client sees the same weather.
+export function drawWeather(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  state: Pick<GameRoom, "rules" | "wind" | "tick">,
+) {
+  const { weather } = state.rules
+  // Spread particles over the pitch from their index, then scroll them with the tick
+  const wrap = (value: number, size: number) => ((value % size) + size) % size
+  const particle = (i: number, speedX: number, speedY: number) => ({
+    x: wrap(i * 7919 + state.tick * speedX, width),
+    y: wrap(i * 104729 + state.tick * speedY, height),
+  })
+
+  ctx.save()
+  if (weather === "rain") {
+    ctx.fillStyle = "rgba(20, 30, 60, 0.2)"
+    ctx.fillRect(0, 0, width, height)
+    ctx.strokeStyle = "rgba(180, 200, 255, 0.5)"
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    for (let i = 0; i < 120; i++) {
+      const { x, y } = particle(i, 3, 14)
+      ctx.moveTo(x, y)
+      ctx.lineTo(x - 3, y - 12)
+    }
     ctx.stroke()
-  }
-  for (let i = 0; i < 25; i += 10) {
+  } else if (weather === "snow") {
+    ctx.fillStyle = "#fff"
+    for (let i = 0; i < 90; i++) {
+      const { x, y } = particle(i, Math.sin(i) * 0.6, 1 + (i % 3) * 0.5)
+      ctx.fillRect(Math.round(x), Math.round(y), i % 3 === 0 ? 3 : 2, i % 3 === 0 ? 3 : 2)
+    }
+  } else if (weather === "wind") {
+    const strength = Math.hypot(state.wind.x, state.wind.y)
+    const dirX = state.wind.x / strength
+    const dirY = state.wind.y / strength
+
+    // Gusts streaking across the pitch
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.25)"
+    ctx.lineWidth = 2
+    ctx.beginPath()
+    for (let i = 0; i < 24; i++) {
+      const { x, y } = particle(i, dirX * 8, dirY * 8)
+      ctx.moveTo(x, y)
+      ctx.lineTo(x - dirX * 30, y - dirY * 30)
+    }
+    ctx.stroke()
+
+    // Wind sock in the top corner, longer the stronger it blows
+    const cx = width - 45
+    const cy = 45
+    const length = 10 + (strength / WIND_STRENGTH) * 20
+    ctx.strokeStyle = "#fff"
+    ctx.fillStyle = "#fff"
+    ctx.lineWidth = 3
     ctx.beginPath()
-    ctx.moveTo(width - 25 + i, goalTop)
-    ctx.lineTo(width - 25 + i, goalTop + goalHeight)
+    ctx.moveTo(cx - dirX * length, cy - dirY * length)
+    ctx.lineTo(cx + dirX * length, cy + dirY * length)
     ctx.stroke()
+    ctx.beginPath()
+    ctx.moveTo(cx + dirX * (length + 8), cy + dirY * (length + 8))
+    ctx.lineTo(cx + dirX * length - dirY * 7, cy + dirY * length + dirX * 7)
+    ctx.lineTo(cx + dirX * length + dirY * 7, cy + dirY * length - dirX * 7)
+    ctx.fill()
   }
-  // Goal frame
-  ctx.strokeStyle = "#fff"
+  ctx.restore()
+}
+
+// Full-pitch banner used for match breaks such as half-time and full-time
+export function drawMatchOverlay(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  title: string,
+  lines: string[],
+  titleColor = "#00ff88",
+) {
+  ctx.fillStyle = "rgba(0, 0, 0, 0.7)"
+  ctx.fillRect(0, 0, width, height)
+
+  ctx.textAlign = "center"
+  ctx.strokeStyle = "#000"
   ctx.lineWidth = 4
-  ctx.strokeRect(width - 25, goalTop, 25, goalHeight)
+  ctx.fillStyle = titleColor
+  ctx.font = "bold 56px monospace"
+  ctx.strokeText(title, width / 2, height / 2 - 30)
+  ctx.fillText(title, width / 2, height / 2 - 30)
+
+  ctx.fillStyle = "#fff"
+  ctx.font = "bold 24px monospace"
+  lines.forEach((line, i) => {
+    ctx.fillText(line, width / 2, height / 2 + 20 + i * 32)
+  })
+}
+
+const SET_PIECE_LABELS: Record<SetPieceType, string> = {
+  throwIn: "THROW-IN",
+  corner: "CORNER",
+  goalKick: "GOAL KICK",
+  freeKick: "FREE KICK",
+  indirectFreeKick: "INDIRECT FREE KICK",
+  penalty: "PENALTY",
+}
+
+// HUD label for the current stage of the match
+export function getPeriodLabel(state: Pick<GameRoom, "phase" | "half" | "rules">): string {
+  if (state.phase === "halftime") return "HALF TIME"
+  if (state.phase === "penalties") return "PENALTIES"
+  if (state.phase === "finished") return "FULL TIME"
+  if (state.half > state.rules.halves) return `EXTRA TIME ${state.half - state.rules.halves}`
+  if (state.rules.halves === 1) return "MATCH"
+  const suffix = state.half === 1 ? "ST" : state.half === 2 ? "ND" : state.half === 3 ? "RD" : "TH"
+  return `${state.half}${suffix} HALF`
+}
+
+// One row of kick markers per team: filled for a goal, crossed for a miss, empty
+// for kicks still to come in the first five rounds.
+export function drawShootoutBoard(ctx: CanvasRenderingContext2D, width: number, shootout: Shootout) {
+  const slots = Math.max(SHOOTOUT_ROUNDS, shootout.kicks.home.length, shootout.kicks.away.length)
+  const spacing = 22
+  const boardWidth = 90 + slots * spacing
+
+  ctx.fillStyle = "rgba(0, 0, 0, 0.7)"
+  ctx.fillRect(width / 2 - boardWidth / 2, 8, boardWidth, 56)
+
+  const rows: [string, boolean[], string][] = [
+    ["HOME", shootout.kicks.home, "#ff6b6b"],
+    ["AWAY", shootout.kicks.away, "#6b9fff"],
+  ]
+  rows.forEach(([label, kicks, color], row) => {
+    const y = 26 + row * 22
+    ctx.fillStyle = color
+    ctx.font = "bold 14px monospace"
+    ctx.textAlign = "left"
+    ctx.fillText(label, width / 2 - boardWidth / 2 + 10, y + 5)
+
+    for (let i = 0; i < slots; i++) {
+      const x = width / 2 - boardWidth / 2 + 80 + i * spacing
+      ctx.beginPath()
+      ctx.arc(x, y, 7, 0, Math.PI * 2)
+      if (kicks[i] === true) {
+        ctx.fillStyle = "#00ff88"
+        ctx.fill()
+      } else if (kicks[i] === false) {
+        ctx.strokeStyle = "#ff4444"
+        ctx.lineWidth = 3
+        ctx.beginPath()
+        ctx.moveTo(x - 5, y - 5)
+        ctx.lineTo(x + 5, y + 5)
+        ctx.moveTo(x + 5, y - 5)
+        ctx.lineTo(x - 5, y + 5)
+        ctx.stroke()
+      } else {
+        ctx.strokeStyle = "#666"
+        ctx.lineWidth = 2
+        ctx.stroke()
+      }
+    }
+  })
+}
+
+// Draws the kickoff countdown and the half-time, shootout and full-time screens. Does
+// nothing while the ball is in play.
+export function drawPhaseOverlay(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  state: GameRoom & { players: { id: string; name: string }[] },
+) {
+  const scoreLine = `HOME ${state.score.home} - ${state.score.away} AWAY`
+
+  if (state.phase === "playing" && state.kickoff && state.kickoff.countdown > 0) {
+    const { team, countdown } = state.kickoff
+    ctx.textAlign = "center"
+    ctx.strokeStyle = "#000"
+    ctx.lineWidth = 4
+    ctx.fillStyle = "#ffff00"
+    ctx.font = "bold 48px monospace"
+    ctx.strokeText("READY", width / 2, height / 2 - 90)
+    ctx.fillText("READY", width / 2, height / 2 - 90)
+
+    const count = `${Math.ceil(countdown / TICK_RATE)}`
+    ctx.fillStyle = "#fff"
+    ctx.font = "bold 64px monospace"
+    ctx.strokeText(count, width / 2, height / 2 + 110)
+    ctx.fillText(count, width / 2, height / 2 + 110)
+
+    ctx.fillStyle = team === "home" ? "#ff6b6b" : "#6b9fff"
+    ctx.font = "bold 20px monospace"
+    ctx.strokeText(`${team.toUpperCase()} KICK OFF`, width / 2, height / 2 + 145)
+    ctx.fillText(`${team.toUpperCase()} KICK OFF`, width / 2, height / 2 + 145)
+  }
+
+  // Offside line from the moment of the pass, until play restarts
+  if (state.phase === "playing" && state.setPiece && state.setPiece.offsideX !== null && state.setPiece.countdown > 0) {
+    const x = state.setPiece.offsideX
+    ctx.save()
+    ctx.strokeStyle = "#ffff00"
+    ctx.lineWidth = 3
+    ctx.setLineDash([10, 8])
+    ctx.beginPath()
+    ctx.moveTo(x, TOUCHLINE)
+    ctx.lineTo(x, height - TOUCHLINE)
+    ctx.stroke()
+    ctx.restore()
+
+    ctx.textAlign = "center"
+    ctx.strokeStyle = "#000"
+    ctx.lineWidth = 4
+    ctx.fillStyle = "#ffff00"
+    ctx.font = "bold 24px monospace"
+    ctx.strokeText("OFFSIDE", x, height / 2)
+    ctx.fillText("OFFSIDE", x, height / 2)
+  }
+
+  if (state.phase === "playing" && state.setPiece) {
+    const { team, type } = state.setPiece
+    const text = `${SET_PIECE_LABELS[type]} - ${team.toUpperCase()}`
+    ctx.textAlign = "center"
+    ctx.strokeStyle = "#000"
+    ctx.lineWidth = 4
+    ctx.fillStyle = team === "home" ? "#ff6b6b" : "#6b9fff"
+    ctx.font = "bold 28px monospace"
+    ctx.strokeText(text, width / 2, 60)
+    ctx.fillText(text, width / 2, 60)
+
+    // Booking for the foul that caused it, until play restarts
+    const booked = state.setPiece.card ? state.players.find((p) => p.id === state.setPiece!.cardPlayerId) : null
+    if (booked && state.setPiece.countdown > 0) {
+      const red = state.setPiece.card === "red"
+      ctx.fillStyle = red ? "#ff2222" : "#ffdd00"
+      ctx.fillRect(width / 2 - 15, 80, 30, 40)
+      ctx.strokeRect(width / 2 - 15, 80, 30, 40)
+
+      const cardText = red ? `${booked.name} SENT OFF` : `${booked.name} BOOKED`
+      ctx.fillStyle = "#fff"
+      ctx.font = "bold 20px monospace"
+      ctx.strokeText(cardText, width / 2, 145)
+      ctx.fillText(cardText, width / 2, 145)
+    }
+  }
+
+  if (state.phase === "halftime") {
+    const lines = [scoreLine, "TEAMS CHANGE ENDS"]
+    if (state.half === state.rules.halves) lines.push("EXTRA TIME NEXT")
+    drawMatchOverlay(ctx, width, height, "HALF TIME", lines)
+  }
+
+  if (state.phase === "penalties" && state.shootout) {
+    const { shootout } = state
+    drawShootoutBoard(ctx, width, shootout)
+
+    ctx.textAlign = "center"
+    ctx.strokeStyle = "#000"
+    ctx.lineWidth = 4
+    ctx.font = "bold 32px monospace"
+    if (shootout.stage === "ready") {
+      const text = `${shootout.kickingTeam.toUpperCase()} TO KICK`
+      ctx.fillStyle = shootout.kickingTeam === "home" ? "#ff6b6b" : "#6b9fff"
+      ctx.strokeText(text, width / 2, height / 2 - 60)
+      ctx.fillText(text, width / 2, height / 2 - 60)
+    } else if (shootout.stage === "result") {
+      const scored = shootout.kicks[shootout.kickingTeam].at(-1)
+      const text = scored ? "GOAL!" : "NO GOAL!"
+      ctx.fillStyle = scored ? "#00ff88" : "#ff4444"
+      ctx.strokeText(text, width / 2, height / 2 - 60)
+      ctx.fillText(text, width / 2, height / 2 - 60)
+    }
+  }
+
+  if (state.phase === "finished") {
+    const winner = getWinner(state)
+    const color = winner === "home" ? "#ff6b6b" : winner === "away" ? "#6b9fff" : "#ffffff"
+    const lines = [scoreLine]
+    if (winner && state.shootout) {
+      const home = state.shootout.kicks.home.filter(Boolean).length
+      const away = state.shootout.kicks.away.filter(Boolean).length
+      lines.push(`${winner.toUpperCase()} WINS ${Math.max(home, away)}-${Math.min(home, away)} ON PENALTIES`)
+    } else {
+      lines.push(winner === "home" ? "HOME TEAM WINS!" : winner === "away" ? "AWAY TEAM WINS!" : "IT'S A DRAW!")
+    }
+    drawMatchOverlay(ctx, width, height, "FULL TIME", lines, color)
+  }
 }
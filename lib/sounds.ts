@@ -107,6 +107,34 @@ class SoundSystem {
     this.playTone(80, 0.08, "square")
   }
 
+  poke() {
+    this.init()
+    // Quick toe-poke
+    this.playTone(350, 0.04, "square")
+    this.playNoise(0.04, 0.15)
+  }
+
+  header() {
+    this.init()
+    // Dull knock off the forehead
+    this.playTone(250, 0.06, "triangle")
+    this.playTone(120, 0.08, "square")
+  }
+
+  foul() {
+    this.init()
+    // Heavy thud on a late challenge
+    this.playNoise(0.15, 0.35)
+    this.playTone(60, 0.15, "square")
+  }
+
+  card() {
+    this.init()
+    // Two sharp blasts as the referee books someone
+    this.playTone(1500, 0.08, "square")
+    setTimeout(() => this.playTone(1500, 0.08, "square"), 120)
+  }
+
   grab() {
     this.init()
     // Catch sound
@@ -120,6 +148,21 @@ class SoundSystem {
     this.playTone(300, 0.05, "square")
   }
 
+  post() {
+    this.init()
+    // Ringing clang off the woodwork
+    this.playTone(880, 0.2, "triangle")
+    this.playTone(1320, 0.12, "triangle")
+  }
+
+  miss() {
+    this.init()
+    // Falling "wah-wah" for a missed or saved penalty
+    this.playTone(392, 0.15, "square")
+    setTimeout(() => this.playTone(330, 0.15, "square"), 150)
+    setTimeout(() => this.playTone(262, 0.3, "triangle"), 300)
+  }
+
   whistle() {
     this.init()
     // Referee whistle
@@ -0,0 +1,100 @@
+// Named squads to pick teams from. Each lists five players in formation order, keeper
+// first, with the attributes the engine plays them with. Squads differ in style rather
+// than overall strength, so any pairing makes a fair match.
+
+import { createPlayer, type Player, type PlayerAttributes, type Team } from "@/lib/game-engine"
+
+export interface SquadMember {
+  name: string
+  attributes: PlayerAttributes
+}
+
+export interface Squad {
+  id: string
+  name: string
+  players: SquadMember[]
+}
+
+export const SQUADS: Squad[] = [
+  {
+    id: "reds",
+    name: "RED STARS",
+    players: [
+      { name: "BARNES", attributes: { pace: 40, shooting: 30, passing: 50, tackling: 40, goalkeeping: 70 } },
+      { name: "COLE", attributes: { pace: 55, shooting: 40, passing: 55, tackling: 70, goalkeeping: 20 } },
+      { name: "MOSS", attributes: { pace: 60, shooting: 50, passing: 70, tackling: 55, goalkeeping: 20 } },
+      { name: "REID", attributes: { pace: 70, shooting: 60, passing: 60, tackling: 40, goalkeeping: 20 } },
+      { name: "STONE", attributes: { pace: 60, shooting: 80, passing: 45, tackling: 35, goalkeeping: 20 } },
+    ],
+  },
+  {
+    id: "blues",
+    name: "BLUE WAVE",
+    players: [
+      { name: "OKAFOR", attributes: { pace: 45, shooting: 30, passing: 55, tackling: 40, goalkeeping: 65 } },
+      { name: "LUND", attributes: { pace: 50, shooting: 35, passing: 65, tackling: 75, goalkeeping: 20 } },
+      { name: "FERRO", attributes: { pace: 55, shooting: 50, passing: 80, tackling: 60, goalkeeping: 20 } },
+      { name: "DUARTE", attributes: { pace: 65, shooting: 60, passing: 70, tackling: 40, goalkeeping: 20 } },
+      { name: "KANE", attributes: { pace: 55, shooting: 70, passing: 55, tackling: 35, goalkeeping: 20 } },
+    ],
+  },
+  {
+    id: "golds",
+    name: "GOLD RUSH",
+    players: [
+      { name: "ITO", attributes: { pace: 55, shooting: 35, passing: 45, tackling: 40, goalkeeping: 60 } },
+      { name: "MENDES", attributes: { pace: 70, shooting: 40, passing: 45, tackling: 60, goalkeeping: 20 } },
+      { name: "SILVA", attributes: { pace: 75, shooting: 55, passing: 55, tackling: 45, goalkeeping: 20 } },
+      { name: "NAKATA", attributes: { pace: 85, shooting: 55, passing: 55, tackling: 30, goalkeeping: 20 } },
+      { name: "ROCHA", attributes: { pace: 80, shooting: 65, passing: 40, tackling: 30, goalkeeping: 20 } },
+    ],
+  },
+  {
+    id: "greys",
+    name: "IRON WALL",
+    players: [
+      { name: "HOLT", attributes: { pace: 35, shooting: 30, passing: 45, tackling: 45, goalkeeping: 85 } },
+      { name: "BRANDT", attributes: { pace: 45, shooting: 35, passing: 50, tackling: 85, goalkeeping: 20 } },
+      { name: "VOSS", attributes: { pace: 45, shooting: 40, passing: 55, tackling: 80, goalkeeping: 20 } },
+      { name: "KRAUSE", attributes: { pace: 50, shooting: 55, passing: 60, tackling: 65, goalkeeping: 20 } },
+      { name: "MULLER", attributes: { pace: 50, shooting: 75, passing: 50, tackling: 45, goalkeeping: 20 } },
+    ],
+  },
+]
+
+export const DEFAULT_SQUADS: Record<Team, string> = { home: "reds", away: "blues" }
+
+// Unknown ids fall back to the first squad
+export function getSquad(id: string): Squad {
+  return SQUADS.find((squad) => squad.id === id) ?? SQUADS[0]
+}
+
+// Squad choices sent by a client, with unknown or missing ids replaced by the defaults
+export function parseSquads(input: unknown): Record<Team, string> {
+  const raw = (input && typeof input === "object" ? input : {}) as Partial<Record<Team, unknown>>
+  const pick = (value: unknown, fallback: string) =>
+    SQUADS.some((squad) => squad.id === value) ? (value as string) : fallback
+  return { home: pick(raw.home, DEFAULT_SQUADS.home), away: pick(raw.away, DEFAULT_SQUADS.away) }
+}
+
+// Squad slots that take the field for a side of `teamSize`: the keeper and the first
+// outfield players, or just the last outfield player for 1v1, which has no keepers
+export function squadSlots(teamSize: number): number[] {
+  return teamSize === 1 ? [4] : Array.from({ length: teamSize }, (_, slot) => slot)
+}
+
+// The player for slot `index` of a squad, where slot 0 is the keeper. `name` overrides the
+// squad member's name, e.g. with what an online player typed in.
+export function createSquadPlayer(
+  id: string,
+  squadId: string,
+  team: Team,
+  index: number,
+  isHuman: boolean,
+  endsSwapped = false,
+  name?: string,
+): Player {
+  const squad = getSquad(squadId)
+  const member = squad.players[index % squad.players.length]
+  return createPlayer(id, name ?? member.name, team, index, index === 0, isHuman, endsSwapped, member.attributes)
+}